@@ -2,20 +2,26 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useCallback } from 'react';
+import React, { useState, ChangeEvent, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateStyledImage } from './services/geminiService';
+import { generateStyledImage, getStyleRegistry, openTimelineSession, quoteTimeline, cancelTimelineSession, watchTimelineSession, createShare, getShareUrl, StyleSelection, StylePreset, Region, AuthExpiredError, OutOfCreditsError, RateLimitedError, UpstreamUnavailableError } from './services/geminiService';
 import PolaroidCard from './components/PolaroidCard';
 import { createAlbumPage } from './lib/albumUtils';
 import Footer from './components/Footer';
 import heic2any from 'heic2any';
 import Slideshow from './components/Slideshow';
 import { addWatermark } from './lib/utils';
+import { runAdaptivePool } from './lib/adaptivePool';
+import { saveTimeline, updateSavedDecade, loadTimeline, clearTimeline, SavedDecade, SavedTimeline } from './lib/timelineStore';
+import { DEFAULT_TIMELINE, buildTimeline, isFutureEra, sortEras } from './lib/eras';
+import TimelinePicker from './components/TimelinePicker';
 import { useUserContext } from './contexts/AuthContext';
+import { useNotifications } from './contexts/NotificationContext';
 
 
-const DECADES = ['1900s', '1910s', '1920s', '1930s', '1940s', '1950s', '1960s', '1970s', '1980s', '1990s', '2000s', '2010s'];
-const INSPIRATION_PROMPTS = ["A vibrant cartoon", "A charcoal sketch", "8-bit pixel art", "Vaporwave aesthetic", "An oil painting", "A futuristic robot"];
+const MAX_CUSTOM_STYLE_LENGTH = 200;
+// How long a timeline pauses before starting more decades after the model fails, unless the server said how long.
+const TIMELINE_BACKOFF_MS = 5000;
 
 const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "200%", y: "-150%", rotate: 15 }, transition: { delay: 0.1 } },
@@ -33,7 +39,7 @@ const GHOST_POLAROIDS_CONFIG = [
 ];
 
 
-const PayPalCreditButton = () => (
+const PayPalCreditButton = ({ email }: { email?: string }) => (
     <form action="https://www.paypal.com/ncp/payment/E29Z2EWC657L4" method="post" target="_blank" style={{display:'inline-grid', justifyItems:'center', alignContent:'start', gap:'0.5rem'}}>
         <input 
             className="pp-E29Z2EWC657L4"
@@ -44,6 +50,11 @@ const PayPalCreditButton = () => (
         <section style={{fontSize: '0.75rem'}}> 
             Powered by <img src="https://www.paypalobjects.com/paypal-ui/logos/svg/paypal-wordmark-color.svg" alt="paypal" style={{height:'0.875rem',verticalAlign:'middle'}}/>
         </section>
+        {email && (
+            <p className="text-xs text-stone-500 font-sans max-w-xs text-center">
+                Pay with the PayPal account for {email} and your credits are added automatically.
+            </p>
+        )}
     </form>
 );
 
@@ -52,8 +63,20 @@ interface GeneratedImage {
     status: ImageStatus;
     url?: string;
     error?: string;
+    generationId?: string; // The server-side ID of the stored original.
+    styleVersion?: number; // The version of the style's prompt that produced it; regenerations use it again.
+    progress?: 'queued' | 'generating'; // Where a pending timeline decade is, as streamed by the server.
 }
 
+const PROGRESS_LABELS: Record<NonNullable<GeneratedImage['progress']>, string> = {
+    queued: 'Waiting in line...',
+    generating: 'Developing...',
+};
+
+// Short timelines get fewer columns, rather than a mostly empty row.
+const getTimelineGridClasses = (eraCount: number) =>
+    eraCount === 1 ? 'max-w-sm' : eraCount <= 4 ? 'sm:grid-cols-2 max-w-3xl' : 'sm:grid-cols-2 lg:grid-cols-3';
+
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-stone-900 bg-teal-400 py-3 px-8 rounded-sm transform transition-all duration-200 hover:scale-105 hover:-rotate-2 shadow-[3px_3px_0px_#fb923c] hover:shadow-[4px_4px_0px_#f97316] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 disabled:hover:rotate-0 disabled:shadow-[3px_3px_0px_#fb923c]";
 const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-pink-500 bg-transparent border-2 border-pink-400 py-3 px-8 rounded-sm transform transition-all duration-200 hover:scale-105 hover:rotate-2 hover:bg-pink-400 hover:text-white";
 const inspirationButtonClasses = "font-permanent-marker text-sm text-center text-orange-600 bg-orange-100 border border-orange-200 py-2 px-4 rounded-sm transition-all duration-200 hover:scale-105 hover:bg-orange-200";
@@ -95,15 +118,34 @@ const resizeImage = (imageDataUrl: string, maxWidth: number, maxHeight: number):
 };
 
 function App() {
-    const { user, isAuthenticated, isLoading, loginWithRedirect, getAccessTokenSilently, credits, deductCredit, error } = useUserContext();
+    const { user, isAuthenticated, isLoading, loginWithRedirect, getAccessTokenSilently, credits, syncCredits, refreshCredits, error } = useUserContext();
+    const { notify, notifyError, showDialog, choose } = useNotifications();
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
+    const [isSharing, setIsSharing] = useState<boolean>(false);
     const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
     const [isProcessingUpload, setIsProcessingUpload] = useState<boolean>(false);
     const [slideshowOpen, setSlideshowOpen] = useState(false);
     const [slideshowStartIndex, setSlideshowStartIndex] = useState(0);    
     const [customPrompt, setCustomPrompt] = useState('');
+    // The server's style registry. Timelines wait for it, since each era is one of its presets.
+    const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+    const [regions, setRegions] = useState<Region[]>([]);
+    // The eras the user picked for their next timeline, the region to set them in, and what the server would charge for them.
+    const [selectedEras, setSelectedEras] = useState<string[]>(() => buildTimeline(DEFAULT_TIMELINE.startYear, DEFAULT_TIMELINE.endYear, DEFAULT_TIMELINE.step));
+    const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
+    const [timelineCost, setTimelineCost] = useState<number | null>(null);
+    // The eras of the timeline on screen, oldest first, and the region they are set in. Empty for a single custom style.
+    const [timelineEras, setTimelineEras] = useState<string[]>([]);
+    const [timelineRegion, setTimelineRegion] = useState<string | null>(null);
+    // The paid server-side session covering the current timeline's decades (and their regenerations).
+    const [timelineSessionId, setTimelineSessionId] = useState<string | null>(null);
+    // Aborts the timeline being generated; see handleCancelTimeline.
+    const timelineAbortRef = useRef<AbortController | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
+    // A timeline interrupted by a reload is offered for resuming once per page load; see offerToResume.
+    const resumeOfferedRef = useRef(false);
 
     const getAuthToken = useCallback(async (): Promise<string> => {
         try {
@@ -112,10 +154,40 @@ function App() {
             return token;
         } catch (error) {
             console.error("Error getting access token", error);
-            throw new Error("Authentication error: Could not get a token for the API. Please try logging in again.");
+            throw new AuthExpiredError("Could not get a token for the API. Please log in again.");
         }
     }, [getAccessTokenSilently]);
 
+    // Results are keyed by what the user sees (an era, a preset's name or their own words); the server only needs the style.
+    // Pass the version an earlier result was made with to get the same prompt again. Only eras are set in a region.
+    const getStyleSelection = (prompt: string, styleVersion?: number, region?: string): StyleSelection => {
+        const preset = stylePresets.find(p => p.category !== 'custom' && p.displayName === prompt);
+        if (preset) {
+            const isEraPreset = preset.category === 'era' || preset.category === 'future-era';
+            return { styleId: preset.id, styleVersion: styleVersion ?? preset.version, ...(isEraPreset && region ? { region } : {}) };
+        }
+        const custom = stylePresets.find(p => p.category === 'custom');
+        return { styleId: 'custom', customText: prompt, styleVersion: styleVersion ?? custom?.version };
+    };
+
+    const loadStyleRegistry = async () => {
+        try {
+            const registry = await getStyleRegistry(await getAuthToken());
+            setStylePresets(registry.styles);
+            setRegions(registry.regions);
+        } catch (err) {
+            console.error("Failed to load the style presets:", err);
+            notifyError(err, {
+                fallback: "The styles could not be loaded.",
+                retry: { label: 'Try again', onClick: loadStyleRegistry },
+            });
+        }
+    };
+
+    useEffect(() => {
+        if (isAuthenticated) loadStyleRegistry();
+    }, [isAuthenticated]);
+
     const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
         if (!e.target.files || e.target.files.length === 0) return;
 
@@ -160,7 +232,7 @@ function App() {
 
         } catch (error) {
             console.error("Error processing image:", error);
-            alert("There was a problem processing your image. It might be in an unsupported format. Please try a standard JPEG or PNG.");
+            notify({ kind: 'error', message: "There was a problem processing your image. It might be in an unsupported format. Please try a standard JPEG or PNG." });
             setAppState('idle');
         } finally {
             setIsProcessingUpload(false);
@@ -168,107 +240,339 @@ function App() {
     };
 
     const handleGenerateTimeline = async () => {
-        if (!uploadedImage) return;
+        const eras = selectedEras;
+        const region = selectedRegion ?? undefined;
+        if (!uploadedImage || !user?.sub || eras.length === 0) return;
 
-        if (credits !== null && credits <= 0) {
-            alert("You are out of credits.");
+        if (credits !== null && credits < (timelineCost ?? 1)) {
+            notifyError(new OutOfCreditsError());
             return;
         }
 
         setAppState('generating');
+        setTimelineEras(eras);
+        setTimelineRegion(region ?? null);
         
         const initialImages: Record<string, GeneratedImage> = {};
-        DECADES.forEach(decade => {
+        eras.forEach(decade => {
             initialImages[decade] = { status: 'pending' };
         });
         setGeneratedImages(initialImages);
-        
-        let atLeastOneSuccess = false;
 
+        let token: string;
+        let timeline: SavedTimeline;
         try {
-            const token = await getAuthToken();
-            for (const decade of DECADES) {
+            token = await getAuthToken();
+            // The whole timeline is paid for once, up front. The decade calls below run within the session.
+            const session = await openTimelineSession(token, eras.length);
+            setTimelineSessionId(session.sessionId);
+            syncCredits(session.credits);
+            timeline = {
+                userId: user.sub,
+                sessionId: session.sessionId,
+                sessionExpiresAt: session.expiresAt,
+                concurrency: session.concurrency,
+                sourceImage: uploadedImage,
+                region,
+                decades: Object.fromEntries(eras.map(decade => [decade, { status: 'pending', idempotencyKey: crypto.randomUUID(), style: getStyleSelection(decade, undefined, region) }])),
+                savedAt: Date.now(),
+            };
+        } catch(setupError) {
+             notifyError(setupError, { fallback: "An unknown authentication error occurred." });
+             setAppState('image-uploaded');
+             refreshCredits();
+             return;
+        }
+
+        // Saved before any decade is sent, so a reload from here on can resume the timeline with the same keys.
+        await saveTimeline(timeline).catch(err => console.warn("Could not save the timeline for resuming:", err));
+        await runTimeline(timeline, token);
+    };
+
+    // Generates the decades of a paid timeline that are still pending, for a new timeline or one resumed after a reload.
+    // Each decade's progress is saved as it finishes; the saved timeline is deleted once the run is over.
+    const runTimeline = async (timeline: SavedTimeline, token: string) => {
+        const { userId, sessionId, sourceImage } = timeline;
+        const eras = sortEras(Object.keys(timeline.decades));
+        const pendingDecades = eras.filter(decade => timeline.decades[decade].status === 'pending');
+        const saveDecade = (decade: string, update: Partial<SavedDecade>) =>
+            updateSavedDecade(userId, sessionId, decade, update).catch(err => console.warn(`Could not save the result for ${decade}:`, err));
+
+        const controller = new AbortController();
+        timelineAbortRef.current = controller;
+        setIsCancelling(false);
+
+        // The server streams each decade's progress. Pending cards show it until their result arrives below.
+        const progress = watchTimelineSession(getAuthToken, sessionId, event => {
+            if (event.status !== 'queued' && event.status !== 'generating') return;
+            setGeneratedImages(prev => prev[event.label]?.status === 'pending'
+                ? { ...prev, [event.label]: { ...prev[event.label], progress: event.status } }
+                : prev);
+        });
+
+        // Each decade is queued as a job on the server, and its result taken from the progress stream,
+        // so a slow model response is waited out rather than failing the request. Several decades run at once,
+        // fewer while the server is pushing back; each card fills in as its result arrives.
+        let results: PromiseSettledResult<void>[];
+        try {
+            results = await runAdaptivePool(pendingDecades, async decade => {
                 try {
-                    const prompt = `Change the style of this photograph to look like it was taken in the ${decade}. Adapt the clothing, hair, and photo quality to match the era, but keep the person's face recognizable.`;
-                    // The backend now handles credit deduction, so we just call the service.
-                    const resultUrl = await generateStyledImage(uploadedImage, prompt, token);
-                    const watermarkedUrl = await addWatermark(resultUrl);
+                    // Timelines saved before styles were versioned sent no version, and are resent the same way.
+                    const style = timeline.decades[decade].style ?? { styleId: getStyleSelection(decade).styleId };
+                    const { imageUrl, generationId, styleVersion } = await generateStyledImage(sourceImage, style, token, {
+                        sessionId,
+                        progress,
+                        signal: controller.signal,
+                        idempotencyKey: timeline.decades[decade].idempotencyKey,
+                    });
+                    const watermarkedUrl = await addWatermark(imageUrl);
                     setGeneratedImages(prev => ({
                         ...prev,
-                        [decade]: { status: 'done', url: watermarkedUrl },
+                        [decade]: { status: 'done', url: watermarkedUrl, generationId, styleVersion },
                     }));
-                    if (!atLeastOneSuccess) {
-                        deductCredit(); // Deduct credit on first success for UI feedback
-                        atLeastOneSuccess = true;
-                    }
+                    await saveDecade(decade, { status: 'done', url: watermarkedUrl, generationId });
                 } catch (err) {
+                    if (controller.signal.aborted) throw err;
                     const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
                     setGeneratedImages(prev => ({
                         ...prev,
                         [decade]: { status: 'error', error: errorMessage },
                     }));
+                    await saveDecade(decade, { status: 'error', error: errorMessage });
                     console.error(`Failed to generate image for ${decade}:`, err);
+                    if (err instanceof AuthExpiredError) notifyError(err);
+                    throw err;
                 }
-            }
-        } catch(authError) {
-             alert(authError instanceof Error ? authError.message : "An unknown authentication error occurred.");
-             setAppState('image-uploaded');
-             return;
+            }, {
+                maxConcurrency: timeline.concurrency,
+                isBackoffError: err => err instanceof RateLimitedError || err instanceof UpstreamUnavailableError,
+                backoffDelayMs: err => err instanceof RateLimitedError ? err.retryAfterMs : TIMELINE_BACKOFF_MS,
+                signal: controller.signal,
+            });
+        } finally {
+            progress.close();
+            timelineAbortRef.current = null;
+        }
+
+        await clearTimeline(userId).catch(err => console.warn("Could not delete the saved timeline:", err));
+
+        if (controller.signal.aborted) {
+            // Finished decades stay viewable. The rest are refunded, so regenerating them is charged as usual.
+            setGeneratedImages(prev => {
+                const next = { ...prev };
+                for (const decade of eras) {
+                    if (next[decade]?.status === 'pending') next[decade] = { status: 'error', error: 'Cancelled.' };
+                }
+                return next;
+            });
+            setTimelineSessionId(null);
+            await cancelTimeline(sessionId);
+            setIsCancelling(false);
+            setAppState('results-shown');
+            return;
+        }
+
+        const failedDecades = pendingDecades.filter((_, index) => results[index].status === 'rejected');
+        if (failedDecades.length > 0) {
+            notify({
+                kind: 'error',
+                message: `${failedDecades.length} decade${failedDecades.length === 1 ? '' : 's'} could not be generated.`,
+                actions: [{ label: 'Retry failed decades', onClick: () => retryDecades(failedDecades, sessionId, timeline.region) }],
+            });
         }
 
         setAppState('results-shown');
     };
 
+    // Offers to finish a timeline that was still generating when the page was closed or reloaded. Decades the server
+    // already received are sent again with their saved idempotency keys, so their jobs are picked up where they are
+    // rather than queued (and charged) a second time.
+    const offerToResume = async (userId: string) => {
+        let saved: SavedTimeline | null;
+        try {
+            saved = await loadTimeline(userId);
+        } catch (err) {
+            console.warn("Could not read the saved timeline:", err);
+            return;
+        }
+        if (!saved) return;
+        const timeline = saved;
+
+        const eras = sortEras(Object.keys(timeline.decades));
+        const finishedCount = eras.filter(decade => timeline.decades[decade].status === 'done').length;
+        const hasPending = eras.some(decade => timeline.decades[decade].status === 'pending');
+        // Decades sent after the session expired are charged one credit each, so an expired timeline is only restored.
+        const expired = new Date(timeline.sessionExpiresAt).getTime() <= Date.now();
+        const choice = await choose({
+            title: 'Resume your timeline?',
+            message: expired
+                ? `Your last timeline was interrupted with ${finishedCount} of ${eras.length} eras finished, and its session has since expired. You can still see the finished eras and regenerate the others.`
+                : `Your last timeline was interrupted with ${finishedCount} of ${eras.length} eras finished. Finish the rest? It is already paid for, so you won't be charged again.`,
+            confirmLabel: expired ? 'Show results' : 'Resume',
+            cancelLabel: 'Discard',
+        });
+
+        // Only an explicit Discard deletes the saved timeline; dismissing the dialog keeps it for the next visit.
+        if (choice === 'dismissed') return;
+        if (choice === 'cancelled') {
+            await clearTimeline(userId).catch(err => console.warn("Could not delete the saved timeline:", err));
+            // Decades that never started are refunded, as when the timeline is cancelled while it runs.
+            // cancelTimeline reports its own failures, with a button to try again.
+            if (hasPending) await cancelTimeline(timeline.sessionId);
+            return;
+        }
+
+        setUploadedImage(timeline.sourceImage);
+        setCustomPrompt('');
+        setTimelineEras(eras);
+        setTimelineRegion(timeline.region ?? null);
+        const restoredImages: Record<string, GeneratedImage> = {};
+        for (const decade of eras) {
+            const { status, url, generationId, error, style } = timeline.decades[decade];
+            restoredImages[decade] = status === 'pending' && expired
+                ? { status: 'error', error: "The timeline expired before this decade was finished." }
+                : { status, url, generationId, error, styleVersion: style?.styleVersion };
+        }
+        setGeneratedImages(restoredImages);
+
+        if (expired || !hasPending) {
+            await clearTimeline(userId).catch(err => console.warn("Could not delete the saved timeline:", err));
+            setAppState('results-shown');
+            return;
+        }
+
+        setTimelineSessionId(timeline.sessionId);
+        setAppState('generating');
+        let token: string;
+        try {
+            token = await getAuthToken();
+        } catch (err) {
+            // The saved timeline is kept, so it is offered again after logging in.
+            notifyError(err);
+            setAppState('results-shown');
+            return;
+        }
+        await runTimeline(timeline, token);
+    };
+
+    useEffect(() => {
+        if (!isAuthenticated || !user?.sub || resumeOfferedRef.current) return;
+        resumeOfferedRef.current = true;
+        offerToResume(user.sub).catch(err => {
+            console.error("Failed to resume the saved timeline:", err);
+            notifyError(err, { fallback: "Your last timeline could not be resumed or discarded." });
+        });
+    }, [isAuthenticated, user?.sub]);
+
+    // Prices the chosen eras while they are being picked. The server's answer is shown before anything is charged.
+    useEffect(() => {
+        if (appState !== 'image-uploaded' || selectedEras.length === 0) {
+            setTimelineCost(null);
+            return;
+        }
+        let stale = false;
+        (async () => {
+            try {
+                const quote = await quoteTimeline(await getAuthToken(), selectedEras.length);
+                if (!stale) setTimelineCost(quote.credits);
+            } catch (err) {
+                console.warn("Could not price the timeline:", err);
+                if (!stale) setTimelineCost(null);
+            }
+        })();
+        return () => { stale = true; };
+    }, [appState, selectedEras.length, getAuthToken]);
+
+    // Tells the server to skip the timeline's queued decades and refund those that never started.
+    const cancelTimeline = async (sessionId: string) => {
+        try {
+            const token = await getAuthToken();
+            const cancellation = await cancelTimelineSession(token, sessionId);
+            syncCredits(cancellation.credits);
+            const refunded = cancellation.creditsRefunded;
+            notify({
+                kind: 'info',
+                message: refunded > 0 ? `Timeline cancelled. ${refunded} credit${refunded === 1 ? '' : 's'} refunded.` : "Timeline cancelled.",
+            });
+        } catch (err) {
+            console.error(`Failed to cancel timeline session ${sessionId}:`, err);
+            notifyError(err, {
+                fallback: "The timeline could not be cancelled.",
+                retry: { label: 'Try again', onClick: () => cancelTimeline(sessionId) },
+            });
+        }
+    };
+
+    // Stops the timeline: requests in flight are aborted, no further decades start, and handleGenerateTimeline
+    // then cancels the session on the server.
+    const handleCancelTimeline = () => {
+        setIsCancelling(true);
+        timelineAbortRef.current?.abort();
+    };
+
     const handleGenerateCustom = async () => {
         if (!uploadedImage || !customPrompt.trim()) return;
 
         if (credits !== null && credits <= 0) {
-            alert("You are out of credits.");
+            notifyError(new OutOfCreditsError());
             return;
         }
 
         setAppState('generating');
+        setTimelineEras([]);
+        setTimelineRegion(null);
         const prompt = customPrompt.trim();
         setGeneratedImages({ [prompt]: { status: 'pending' } });
 
         try {
             const token = await getAuthToken();
-            const fullPrompt = `Change the style of this photograph to look like: ${prompt}. Adapt the original photo to match the new style, but keep the person's face recognizable.`;
-            const resultUrl = await generateStyledImage(uploadedImage, fullPrompt, token);
-            const watermarkedUrl = await addWatermark(resultUrl);
-            setGeneratedImages({ [prompt]: { status: 'done', url: watermarkedUrl } });
-            deductCredit(); // Deduct credit on success for UI feedback
+            const { imageUrl, generationId, styleVersion } = await generateStyledImage(uploadedImage, getStyleSelection(prompt), token);
+            const watermarkedUrl = await addWatermark(imageUrl);
+            setGeneratedImages({ [prompt]: { status: 'done', url: watermarkedUrl, generationId, styleVersion } });
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
             setGeneratedImages({ [prompt]: { status: 'error', error: errorMessage } });
             console.error(`Failed to generate custom image for prompt "${prompt}":`, err);
         }
+        // The server charged (or refunded) the generation; show its balance.
+        refreshCredits();
 
         setAppState('results-shown');
     };
 
-    const handleRegenerate = async (prompt: string) => {
+    // Decade regenerations are free while the timeline's session has slots left; the server decides.
+    const regenerateImage = async (prompt: string, sessionId?: string, region?: string) => {
         if (!uploadedImage || generatedImages[prompt]?.status === 'pending') return;
+        // The same prompt as the result being replaced, even if the style has been updated since.
+        const style = getStyleSelection(prompt, generatedImages[prompt]?.styleVersion, region);
         
         setGeneratedImages(prev => ({ ...prev, [prompt]: { status: 'pending' } }));
 
         try {
             const token = await getAuthToken();
-            const fullPrompt = DECADES.includes(prompt) 
-                ? `Change the style of this photograph to look like it was taken in the ${prompt}. Adapt the clothing, hair, and photo quality to match the era, but keep the person's face recognizable.`
-                : `Change the style of this photograph to look like: ${prompt}. Adapt the original photo to match the new style, but keep the person's face recognizable.`;
-            
-            const resultUrl = await generateStyledImage(uploadedImage, fullPrompt, token);
-            const watermarkedUrl = await addWatermark(resultUrl);
-            setGeneratedImages(prev => ({ ...prev, [prompt]: { status: 'done', url: watermarkedUrl } }));
+            const { imageUrl, generationId, styleVersion } = await generateStyledImage(uploadedImage, style, token, { sessionId });
+            const watermarkedUrl = await addWatermark(imageUrl);
+            setGeneratedImages(prev => ({ ...prev, [prompt]: { status: 'done', url: watermarkedUrl, generationId, styleVersion } }));
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-             if (errorMessage.includes("Authentication error") || errorMessage.includes("out of credits")) {
-                alert(errorMessage);
+            if (err instanceof AuthExpiredError || err instanceof OutOfCreditsError) {
+                notifyError(err);
             }
             setGeneratedImages(prev => ({ ...prev, [prompt]: { status: 'error', error: errorMessage } }));
             console.error(`Failed to regenerate image for prompt "${prompt}":`, err);
         }
+        refreshCredits();
+    };
+
+    const handleRegenerate = (prompt: string) => timelineEras.includes(prompt)
+        ? regenerateImage(prompt, timelineSessionId ?? undefined, timelineRegion ?? undefined)
+        : regenerateImage(prompt);
+
+    // Takes the session and region from the caller: a retry offered when a timeline finishes runs before they reach state.
+    const retryDecades = async (decades: string[], sessionId: string, region?: string) => {
+        for (const decade of decades) {
+            await regenerateImage(decade, sessionId, region);
+        }
     };
     
     const handleReset = () => {
@@ -276,6 +580,9 @@ function App() {
         setGeneratedImages({});
         setAppState('idle');
         setCustomPrompt('');
+        setTimelineEras([]);
+        setTimelineRegion(null);
+        setTimelineSessionId(null);
     };
 
     const handleDownloadIndividualImage = (prompt: string) => {
@@ -293,19 +600,20 @@ function App() {
     const handleDownloadAlbum = async () => {
         setIsDownloading(true);
         try {
-            const imageData = Object.keys(generatedImages)
-                .filter(decade => generatedImages[decade].status === 'done' && !!generatedImages[decade].url)
+            // The album follows the timeline's eras, in order.
+            const imageData = timelineEras
+                .filter(decade => generatedImages[decade]?.status === 'done' && !!generatedImages[decade].url)
                 .reduce((acc, decade) => {
                     acc[decade] = generatedImages[decade].url!;
                     return acc;
                 }, {} as Record<string, string>);
 
             if (Object.keys(imageData).length === 0) {
-                alert("No images were generated successfully. Cannot create an album.");
+                notify({ kind: 'info', message: "No images were generated successfully. Cannot create an album." });
                 return;
             }
 
-            const albumDataUrl = await createAlbumPage(imageData);
+            const albumDataUrl = await createAlbumPage(imageData, timelineRegionName);
 
             const link = document.createElement('a');
             link.href = albumDataUrl;
@@ -316,13 +624,64 @@ function App() {
 
         } catch (error) {
             console.error("Failed to create or download album:", error);
-            alert("Sorry, there was an error creating your album. Please try again.");
+            notify({
+                kind: 'error',
+                message: "Sorry, there was an error creating your album.",
+                actions: [{ label: 'Try again', onClick: handleDownloadAlbum }],
+            });
         } finally {
             setIsDownloading(false);
         }
     };
 
+    const handleShareAlbum = async () => {
+        const generationIds = Object.keys(generatedImages)
+            .map(key => generatedImages[key])
+            .filter(image => image.status === 'done' && image.generationId)
+            .map(image => image.generationId!);
+        if (generationIds.length === 0) {
+            notify({ kind: 'info', message: "No images were generated successfully. Cannot share an album." });
+            return;
+        }
+
+        setIsSharing(true);
+        try {
+            const token = await getAuthToken();
+            const title = timelineRegionName ? `My Retro Timeline: ${timelineRegionName}` : 'My Retro Timeline';
+            const share = await createShare(token, { generationIds, title: generationIds.length > 1 ? title : undefined });
+            const url = getShareUrl(share.slug);
+            try {
+                await navigator.clipboard.writeText(url);
+                notify({ kind: 'success', message: `Link copied! Anyone with this link can view your album:\n${url}\n\nYou can revoke it from My Gallery.` });
+            } catch {
+                // Without clipboard access the link has to be copied by hand, so it stays up until the user closes it.
+                showDialog({
+                    title: 'Your album link',
+                    message: (
+                        <>
+                            <p>Anyone with this link can view your album:</p>
+                            <p className="my-3 p-2 bg-white border border-stone-200 rounded-sm select-all">{url}</p>
+                            <p>You can revoke it from My Gallery.</p>
+                        </>
+                    ),
+                });
+            }
+        } catch (error) {
+            console.error("Failed to share album:", error);
+            notifyError(error, {
+                fallback: "Sorry, there was an error sharing your album. Please try again.",
+                retry: { label: 'Try again', onClick: handleShareAlbum },
+            });
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
     const generatedKeys = Object.keys(generatedImages);
+    // Shown under each era's caption, with "Imagined" for future eras, and in the album's title.
+    const timelineRegionName = regions.find(region => region.id === timelineRegion)?.name;
+    const getCaptionNote = (decade: string) =>
+        [timelineRegionName, isFutureEra(decade) ? 'Imagined' : undefined].filter(Boolean).join(' · ') || undefined;
     const successfulImages = generatedKeys
         .map(key => ({
             caption: key,
@@ -333,6 +692,8 @@ function App() {
         .map(image => ({ url: image.url!, caption: image.caption }));
 
     const cannotGenerate = credits !== null && credits <= 0;
+    const cannotAffordTimeline = cannotGenerate || (credits !== null && timelineCost !== null && credits < timelineCost);
+    const cannotGenerateTimeline = cannotAffordTimeline || selectedEras.length === 0 || stylePresets.length === 0;
 
     const renderContent = () => {
         if (isLoading) {
@@ -421,7 +782,7 @@ function App() {
                                        </p>
                                        {credits <= 0 && (
                                            <div className="mt-4">
-                                               <PayPalCreditButton />
+                                               <PayPalCreditButton email={user?.email} />
                                            </div>
                                        )}
                                    </>
@@ -459,15 +820,23 @@ function App() {
                         status="done"
                      />
                      <div className="w-full flex flex-col items-center gap-4">
-                        <button onClick={handleGenerateTimeline} disabled={cannotGenerate} className={primaryButtonClasses}>
+                        <TimelinePicker
+                            eras={selectedEras}
+                            onChange={setSelectedEras}
+                            cost={timelineCost}
+                            regions={regions}
+                            region={selectedRegion}
+                            onRegionChange={setSelectedRegion}
+                        />
+                        <button onClick={handleGenerateTimeline} disabled={cannotGenerateTimeline} className={primaryButtonClasses}>
                             Generate Retro Timeline
                         </button>
-                        {cannotGenerate && (
+                        {cannotAffordTimeline && (
                             <div className="flex flex-col items-center gap-2 -mt-2">
                                 <p className="text-red-600 font-permanent-marker">
                                     Sorry! Out of credits!
                                 </p>
-                                <PayPalCreditButton />
+                                <PayPalCreditButton email={user?.email} />
                             </div>
                         )}
 
@@ -482,6 +851,7 @@ function App() {
                                     type="text"
                                     value={customPrompt}
                                     onChange={(e) => setCustomPrompt(e.target.value)}
+                                    maxLength={MAX_CUSTOM_STYLE_LENGTH}
                                     placeholder="e.g., An oil painting, a futuristic robot..."
                                     className="w-full px-3 py-2 border border-stone-300 rounded-sm focus:outline-none focus:ring-2 focus:ring-teal-400"
                                 />
@@ -490,9 +860,10 @@ function App() {
                                 </button>
                             </div>
                             <div className="mt-3 flex flex-wrap justify-center gap-2">
-                                {INSPIRATION_PROMPTS.map(prompt => (
-                                    <button key={prompt} onClick={() => setCustomPrompt(prompt)} className={inspirationButtonClasses}>
-                                        {prompt}
+                                {stylePresets.filter(preset => preset.category === 'art').map(preset => (
+                                    <button key={preset.id} onClick={() => setCustomPrompt(preset.displayName)} className={`${inspirationButtonClasses} inline-flex items-center gap-2`}>
+                                        {preset.thumbnail && <img src={preset.thumbnail} alt="" className="h-6 w-6 rounded-sm object-cover" />}
+                                        {preset.displayName}
                                     </button>
                                 ))}
                             </div>
@@ -508,15 +879,17 @@ function App() {
         if (appState === 'generating' || appState === 'results-shown') {
             return (
                 <div className="w-full max-w-5xl flex flex-col items-center">
-                   {generatedKeys.length > 1 ? (
-                       <div className="w-full grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 p-4">
-                           {DECADES.map((decade) => (
+                   {timelineEras.length > 0 ? (
+                       <div className={`w-full grid grid-cols-1 ${getTimelineGridClasses(timelineEras.length)} gap-8 p-4`}>
+                           {timelineEras.map((decade) => (
                                <div key={decade} className="flex justify-center">
                                    <PolaroidCard
                                        caption={decade}
                                        status={generatedImages[decade]?.status || 'pending'}
                                        imageUrl={generatedImages[decade]?.url}
                                        error={generatedImages[decade]?.error}
+                                       pendingLabel={generatedImages[decade]?.progress && PROGRESS_LABELS[generatedImages[decade].progress]}
+                                       captionNote={getCaptionNote(decade)}
                                        onRegenerate={handleRegenerate}
                                        onDownload={handleDownloadIndividualImage}
                                        onCardClick={
@@ -549,9 +922,18 @@ function App() {
                        </div>
                    )}
                     <div className="h-20 mt-8 flex items-center justify-center">
+                       {appState === 'generating' && timelineEras.length > 0 && (
+                           <button
+                               onClick={handleCancelTimeline}
+                               disabled={isCancelling}
+                               className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                           >
+                               {isCancelling ? 'Cancelling...' : 'Cancel'}
+                           </button>
+                       )}
                        {appState === 'results-shown' && (
                            <div className="flex flex-col sm:flex-row items-center gap-4">
-                               {generatedKeys.length > 1 && (
+                               {timelineEras.length > 0 && (
                                    <button 
                                        onClick={handleDownloadAlbum} 
                                        disabled={isDownloading} 
@@ -559,6 +941,15 @@ function App() {
                                    >
                                        {isDownloading ? 'Creating Album...' : 'Download Album'}
                                    </button>
+                               )}
+                               {successfulImages.length > 0 && (
+                                   <button
+                                       onClick={handleShareAlbum}
+                                       disabled={isSharing}
+                                       className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                   >
+                                       {isSharing ? 'Sharing...' : 'Share'}
+                                   </button>
                                )}
                                 {successfulImages.length > 1 && (
                                    <button 
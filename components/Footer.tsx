@@ -31,6 +31,18 @@ const Footer = () => {
                             Buy Credits
                             </a>
 
+                            <span className="text-sky-400" aria-hidden="true">|</span>
+
+                            <Link to="/gallery" className="text-white-700 hover:text-white-800">
+                                My Gallery
+                            </Link>
+
+                            <span className="text-sky-400" aria-hidden="true">|</span>
+
+                            <Link to="/credits" className="text-white-700 hover:text-white-800">
+                                Credit History
+                            </Link>
+
                             <span className="text-sky-400" aria-hidden="true">|</span>
 
                              <button
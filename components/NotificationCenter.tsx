@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Banner, DialogResult, NotificationAction, NotificationKind, OpenDialog, Toast } from '../contexts/NotificationContext';
+
+interface NotificationCenterProps {
+    toasts: Toast[];
+    banners: Banner[];
+    dialog?: OpenDialog;
+    onDismissToast: (id: string) => void;
+    onDismissBanner: (id: string) => void;
+    onCloseDialog: (result: DialogResult) => void;
+}
+
+const kindClasses: Record<NotificationKind, string> = {
+    info: 'bg-white border-stone-300 text-stone-800',
+    success: 'bg-teal-50 border-teal-400 text-teal-900',
+    error: 'bg-red-50 border-red-400 text-red-900',
+};
+
+const actionButtonClasses = "font-permanent-marker text-sm text-stone-900 bg-teal-400 py-1 px-3 rounded-sm transition-transform duration-200 hover:scale-105 shadow-[2px_2px_0px_#fb923c]";
+const dismissButtonClasses = "text-xl leading-none opacity-60 hover:opacity-100 transition-opacity";
+
+const ActionButtons = ({ actions, onDone }: { actions?: NotificationAction[]; onDone?: () => void }) => (
+    <>
+        {actions?.map(action => (
+            <button
+                key={action.label}
+                onClick={() => {
+                    action.onClick();
+                    onDone?.();
+                }}
+                className={actionButtonClasses}
+            >
+                {action.label}
+            </button>
+        ))}
+    </>
+);
+
+/**
+ * Renders the notifications of NotificationProvider: banners across the top of the page, toasts in the corner,
+ * and one dialog at a time.
+ */
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ toasts, banners, dialog, onDismissToast, onDismissBanner, onCloseDialog }) => {
+    // Escape dismisses a dialog, like the slideshow. Only a confirmation's own buttons confirm or cancel it.
+    useEffect(() => {
+        if (!dialog) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onCloseDialog('dismissed');
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [dialog, onCloseDialog]);
+
+    return (
+        <>
+            {banners.length > 0 && (
+                <div className="fixed top-0 left-0 right-0 z-[60] flex flex-col">
+                    {banners.map(banner => (
+                        <div key={banner.id} role="alert" className={`border-b px-4 py-3 font-sans text-sm ${kindClasses[banner.kind]}`}>
+                            <div className="max-w-screen-xl mx-auto flex items-center justify-center gap-4">
+                                <p>{banner.message}</p>
+                                <ActionButtons actions={banner.actions} />
+                                {banner.dismissible && (
+                                    <button onClick={() => onDismissBanner(banner.id)} className={dismissButtonClasses} aria-label="Dismiss">
+                                        &times;
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="fixed top-4 right-4 z-[60] flex flex-col gap-3 w-[calc(100%-2rem)] max-w-sm pointer-events-none">
+                <AnimatePresence initial={false}>
+                    {toasts.map(toast => (
+                        <motion.div
+                            key={toast.id}
+                            layout
+                            initial={{ opacity: 0, x: 40 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            exit={{ opacity: 0, x: 40 }}
+                            transition={{ duration: 0.2 }}
+                            role={toast.kind === 'error' ? 'alert' : 'status'}
+                            className={`pointer-events-auto border rounded-md shadow-lg p-4 font-sans text-sm ${kindClasses[toast.kind]}`}
+                        >
+                            <div className="flex items-start gap-3">
+                                <p className="flex-1 whitespace-pre-line break-words">{toast.message}</p>
+                                <button onClick={() => onDismissToast(toast.id)} className={dismissButtonClasses} aria-label="Dismiss">
+                                    &times;
+                                </button>
+                            </div>
+                            {toast.actions && toast.actions.length > 0 && (
+                                <div className="mt-3 flex flex-wrap gap-2">
+                                    <ActionButtons actions={toast.actions} onDone={() => onDismissToast(toast.id)} />
+                                </div>
+                            )}
+                        </motion.div>
+                    ))}
+                </AnimatePresence>
+            </div>
+
+            <AnimatePresence>
+                {dialog && (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        onClick={() => onCloseDialog('dismissed')}
+                        className="fixed inset-0 z-[70] bg-stone-900/40 backdrop-blur-sm flex items-center justify-center p-4"
+                    >
+                        <div
+                            role="alertdialog"
+                            aria-modal="true"
+                            aria-labelledby="notification-dialog-title"
+                            onClick={(e) => e.stopPropagation()}
+                            className="bg-[#FFF9E8] text-stone-800 rounded-md shadow-xl border border-stone-200 p-6 w-full max-w-md"
+                        >
+                            <h2 id="notification-dialog-title" className="font-permanent-marker text-2xl mb-3">{dialog.title}</h2>
+                            <div className="font-sans text-sm text-stone-700 break-words">{dialog.message}</div>
+                            <div className="mt-6 flex justify-end gap-3">
+                                {dialog.cancelLabel && (
+                                    <button onClick={() => onCloseDialog('cancelled')} className="font-permanent-marker text-stone-600 py-2 px-4 rounded-sm hover:bg-stone-200 transition-colors">
+                                        {dialog.cancelLabel}
+                                    </button>
+                                )}
+                                <button
+                                    autoFocus
+                                    onClick={() => onCloseDialog('confirmed')}
+                                    className={`font-permanent-marker py-2 px-4 rounded-sm transition-transform duration-200 hover:scale-105 ${dialog.destructive ? 'bg-red-500 text-white' : 'bg-teal-400 text-stone-900'}`}
+                                >
+                                    {dialog.confirmLabel}
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </>
+    );
+};
+
+export default NotificationCenter;
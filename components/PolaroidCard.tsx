@@ -12,6 +12,8 @@ interface PolaroidCardProps {
     caption: string;
     status: ImageStatus;
     error?: string;
+    pendingLabel?: string; // Shown under the caption while the image is pending, e.g. "Developing...".
+    captionNote?: string; // Qualifies the caption, e.g. "Imagined" for a future era.
     onRegenerate?: (caption: string) => void;
     onDownload?: (caption: string) => void;
     onCardClick?: () => void;
@@ -45,7 +47,7 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, onRegenerate, onDownload, onCardClick }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, pendingLabel, captionNote, onRegenerate, onDownload, onCardClick }) => {
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
     const isClickable = status === 'done' && imageUrl && onCardClick;
@@ -131,6 +133,11 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                 <p className="font-permanent-marker text-lg truncate text-stone-800">
                     {caption}
                 </p>
+                {captionNote && (
+                    <p className="text-xs text-sky-700 font-sans uppercase tracking-wide">
+                        {captionNote}
+                    </p>
+                )}
                 {status === 'done' && imageUrl && onDownload && (
                     <button
                         onClick={(e) => { e.stopPropagation(); onDownload(caption); }}
@@ -139,6 +146,11 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                     >
                         Download
                     </button>
+                )}
+                {status === 'pending' && pendingLabel && (
+                    <p className="text-xs text-stone-600 font-sans mt-1">
+                        {pendingLabel}
+                    </p>
                 )}
                  {status === 'error' && (
                     <p className="text-xs text-red-700 font-sans mt-1">
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { cn } from '../lib/utils';
+import { Region } from '../services/geminiService';
+import { ERAS, TIMELINE_STEPS, TIMELINE_PRESETS, DEFAULT_TIMELINE, TimelineRange, TimelineStep, buildTimeline, isFutureEra, sortEras } from '../lib/eras';
+
+interface TimelinePickerProps {
+    eras: string[]; // The chosen eras, oldest first.
+    onChange: (eras: string[]) => void;
+    cost: number | null; // The credits the chosen eras cost, once the server has priced them.
+    regions: Region[]; // The regions the server can set eras in.
+    region: string | null; // The chosen region's ID, or null for none in particular.
+    onRegionChange: (region: string | null) => void;
+}
+
+const selectClasses = "px-2 py-1 border border-stone-300 rounded-sm bg-white focus:outline-none focus:ring-2 focus:ring-teal-400";
+const eraButtonClasses = "font-permanent-marker text-sm py-1 px-3 rounded-sm border transition-all duration-200 hover:scale-105";
+const presetButtonClasses = "font-permanent-marker text-sm text-center text-orange-600 bg-orange-100 border border-orange-200 py-1 px-3 rounded-sm transition-all duration-200 hover:scale-105 hover:bg-orange-200";
+
+const REGION_GROUPS: { id: Region['group']; label: string }[] = [
+    { id: 'canada', label: 'Canada' },
+    { id: 'world', label: 'Around the world' },
+];
+
+const ERA_GROUPS = [
+    { label: 'The past', eras: ERAS.filter(era => !isFutureEra(era)) },
+    { label: 'The future, imagined', eras: ERAS.filter(isFutureEra) },
+];
+
+// Every era starts a decade, so the range is picked in whole decades.
+const YEARS = ERAS.map(era => parseInt(era, 10));
+
+/**
+ * Picks the eras of a timeline: a range of years with a step between eras, then individual eras ticked on or off.
+ * The range can run into the future, for a timeline from the past to the future. Every era can be set in one region.
+ */
+const TimelinePicker: React.FC<TimelinePickerProps> = ({ eras, onChange, cost, regions, region, onRegionChange }) => {
+    const [startYear, setStartYear] = useState(DEFAULT_TIMELINE.startYear);
+    const [endYear, setEndYear] = useState(DEFAULT_TIMELINE.endYear);
+    const [step, setStep] = useState<TimelineStep>(DEFAULT_TIMELINE.step);
+
+    // Changing the range or the step replaces any eras ticked by hand.
+    const applyRange = (range: TimelineRange) => {
+        setStartYear(range.startYear);
+        setEndYear(range.endYear);
+        setStep(range.step);
+        onChange(buildTimeline(range.startYear, range.endYear, range.step));
+    };
+
+    const toggleEra = (era: string) => {
+        onChange(eras.includes(era) ? eras.filter(other => other !== era) : sortEras([...eras, era]));
+    };
+
+    return (
+        <div className="w-full bg-stone-50/50 p-4 rounded-md border border-stone-200">
+            <p className="font-permanent-marker text-stone-600 text-center text-lg mb-3">Choose Your Eras</p>
+            <div className="mb-3 flex flex-wrap justify-center gap-2">
+                {TIMELINE_PRESETS.map(preset => (
+                    <button key={preset.label} onClick={() => applyRange(preset.range)} className={presetButtonClasses}>
+                        {preset.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-2 font-sans text-sm text-stone-700">
+                <label className="flex items-center gap-2">
+                    From
+                    <select
+                        value={startYear}
+                        onChange={(e) => {
+                            const year = Number(e.target.value);
+                            applyRange({ startYear: year, endYear: Math.max(year, endYear), step });
+                        }}
+                        className={selectClasses}
+                    >
+                        {YEARS.map(year => <option key={year} value={year}>{year}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    to
+                    <select
+                        value={endYear}
+                        onChange={(e) => {
+                            const year = Number(e.target.value);
+                            applyRange({ startYear: Math.min(startYear, year), endYear: year, step });
+                        }}
+                        className={selectClasses}
+                    >
+                        {YEARS.map(year => <option key={year} value={year}>{year}</option>)}
+                    </select>
+                </label>
+                <select
+                    value={step}
+                    onChange={(e) => applyRange({ startYear, endYear, step: e.target.value as TimelineStep })}
+                    className={selectClasses}
+                    aria-label="Step between eras"
+                >
+                    {TIMELINE_STEPS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+                <label className="flex items-center gap-2">
+                    set in
+                    <select
+                        value={region ?? ''}
+                        onChange={(e) => onRegionChange(e.target.value || null)}
+                        className={selectClasses}
+                    >
+                        <option value="">Anywhere</option>
+                        {REGION_GROUPS.map(group => (
+                            <optgroup key={group.id} label={group.label}>
+                                {regions.filter(option => option.group === group.id).map(option => (
+                                    <option key={option.id} value={option.id}>{option.name}</option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            {ERA_GROUPS.map(group => (
+                <div key={group.label} className="mt-3">
+                    <p className="font-sans text-xs uppercase tracking-wide text-stone-500 text-center mb-2">{group.label}</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {group.eras.map(era => {
+                            const selected = eras.includes(era);
+                            return (
+                                <button
+                                    key={era}
+                                    onClick={() => toggleEra(era)}
+                                    aria-pressed={selected}
+                                    className={cn(
+                                        eraButtonClasses,
+                                        !selected && "text-stone-500 bg-transparent border-stone-300",
+                                        selected && (isFutureEra(era) ? "text-white bg-sky-500 border-sky-600" : "text-stone-900 bg-teal-400 border-teal-500")
+                                    )}
+                                >
+                                    {era}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+            <p className="mt-3 text-center font-permanent-marker text-stone-600" aria-live="polite">
+                {eras.length === 0
+                    ? "Pick at least one era."
+                    : `${eras.length} era${eras.length === 1 ? '' : 's'}${cost !== null ? ` for ${cost} credit${cost === 1 ? '' : 's'}` : ''}`}
+            </p>
+        </div>
+    );
+};
+
+export default TimelinePicker;
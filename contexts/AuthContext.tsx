@@ -4,7 +4,7 @@
 */
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useAuth0, User } from '@auth0/auth0-react';
-import { fetchUserData } from '../services/geminiService';
+import { fetchUserData, AuthExpiredError } from '../services/geminiService';
 
 type Status = 'pending' | 'loading' | 'success' | 'error';
 
@@ -16,10 +16,12 @@ interface UserContextType {
     error: Error | null; // Holds authentication or data fetching errors.
     isAdmin: boolean;
     credits: number | null;
+    sessionExpired: boolean; // The server rejected the user's token after login; they need to log in again.
     loginWithRedirect: (options?: any) => Promise<void>;
     logout: (options?: any) => void;
     getAccessTokenSilently: (options?: any) => Promise<string>;
-    deductCredit: () => void;
+    syncCredits: (balance: number) => void; // Applies a balance returned by the server.
+    refreshCredits: () => Promise<void>; // Re-reads the balance from the server.
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -45,6 +47,7 @@ export const UserProvider = ({ children, useAuthHook = useAuth0 }: UserProviderP
     const [isAdmin, setIsAdmin] = useState<boolean>(isMock ? auth.isAdmin : false);
     const [status, setStatus] = useState<Status>('pending');
     const [error, setError] = useState<Error | null>(null);
+    const [sessionExpired, setSessionExpired] = useState(false);
 
     // This effect orchestrates the entire session verification and initial data loading process.
     useEffect(() => {
@@ -111,8 +114,9 @@ export const UserProvider = ({ children, useAuthHook = useAuth0 }: UserProviderP
             } catch (err) {
                 console.error("Failed to sync user data in background:", err);
                 // If auth fails (e.g., session revoked), stop polling.
-                if (err instanceof Error && (err.message.includes("Authentication failed") || err.message.includes("Invalid token"))) {
+                if (err instanceof AuthExpiredError) {
                     clearInterval(intervalId);
+                    setSessionExpired(true);
                 }
             }
         };
@@ -138,18 +142,24 @@ export const UserProvider = ({ children, useAuthHook = useAuth0 }: UserProviderP
     }, [isMock, auth.isAuthenticated, status, auth.getAccessTokenSilently]);
 
 
-    // Function to decrement credits locally for immediate UI feedback.
-    // The authoritative deduction happens on the backend.
-    const deductCredit = useCallback(() => {
-        if (isMock) {
-            auth.deductCredit();
-            return;
+    // The backend is the only authority on the balance. These keep the UI in step with it
+    // instead of guessing at what a generation cost.
+    const syncCredits = useCallback((balance: number) => {
+        setCredits(balance);
+    }, []);
+
+    const refreshCredits = useCallback(async () => {
+        if (isMock || !auth.isAuthenticated) return;
+        try {
+            const token = await auth.getAccessTokenSilently();
+            const { isAdmin, credits } = await fetchUserData(token);
+            setIsAdmin(isAdmin);
+            setCredits(credits);
+        } catch (err) {
+            console.error("Failed to refresh credits:", err);
+            if (err instanceof AuthExpiredError) setSessionExpired(true);
         }
-        setCredits(prev => {
-            if (prev === null) return null;
-            return Math.max(0, prev - 1);
-        });
-    }, [isMock, auth]);
+    }, [isMock, auth.isAuthenticated, auth.getAccessTokenSilently]);
 
     const value: UserContextType = {
         user: auth.user,
@@ -159,10 +169,12 @@ export const UserProvider = ({ children, useAuthHook = useAuth0 }: UserProviderP
         error,
         credits,
         isAdmin,
+        sessionExpired,
         loginWithRedirect: auth.loginWithRedirect,
         logout: auth.logout,
         getAccessTokenSilently: auth.getAccessTokenSilently,
-        deductCredit
+        syncCredits,
+        refreshCredits,
     };
 
     return (
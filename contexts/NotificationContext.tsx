@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useUserContext } from './AuthContext';
+import { AuthExpiredError, OutOfCreditsError } from '../services/geminiService';
+import NotificationCenter from '../components/NotificationCenter';
+
+// Credits are bought on a PayPal payment page; the webhook adds them to the account (see the README).
+const BUY_CREDITS_URL = 'https://www.paypal.com/ncp/payment/E29Z2EWC657L4';
+const SESSION_EXPIRED_BANNER = 'session-expired';
+const TOAST_DURATION_MS = 5000;
+const TOAST_WITH_ACTIONS_DURATION_MS = 12000; // Long enough to reach for the button.
+
+export type NotificationKind = 'info' | 'success' | 'error';
+
+export interface NotificationAction {
+    label: string;
+    onClick: () => void;
+}
+
+export interface Toast {
+    id: string;
+    kind: NotificationKind;
+    message: string;
+    actions?: NotificationAction[];
+}
+
+export interface Banner {
+    id: string; // Showing a banner with the ID of one already shown replaces it.
+    kind: NotificationKind;
+    message: string;
+    actions?: NotificationAction[];
+    dismissible?: boolean;
+}
+
+export interface DialogOptions {
+    title: string;
+    message: ReactNode;
+    confirmLabel?: string;
+    destructive?: boolean; // Styles the confirm button as a warning, e.g. for deletions.
+}
+
+// How a dialog was closed. Dismissing it (with Escape, or by clicking outside) is not the same as pressing its cancel button.
+export type DialogResult = 'confirmed' | 'cancelled' | 'dismissed';
+
+export interface OpenDialog extends DialogOptions {
+    cancelLabel?: string; // Absent for dialogs that only inform.
+    resolve: (result: DialogResult) => void;
+}
+
+interface NotificationContextType {
+    notify: (toast: Omit<Toast, 'id'>) => void;
+    showBanner: (banner: Banner) => void;
+    dismissBanner: (id: string) => void;
+    confirm: (options: DialogOptions & { cancelLabel?: string }) => Promise<boolean>; // Resolves to whether the user confirmed.
+    choose: (options: DialogOptions & { cancelLabel: string }) => Promise<DialogResult>; // For a cancel button that does something.
+    showDialog: (options: DialogOptions) => Promise<void>; // Resolves once the user closes it.
+    notifyError: (error: unknown, options?: { fallback?: string; retry?: NotificationAction }) => void;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+    const context = useContext(NotificationContext);
+    if (!context) {
+        throw new Error('useNotifications must be used within a NotificationProvider');
+    }
+    return context;
+};
+
+export const NotificationProvider = ({ children }: { children: ReactNode }) => {
+    const { loginWithRedirect, sessionExpired } = useUserContext();
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const [banners, setBanners] = useState<Banner[]>([]);
+    // Dialogs opened while another is showing wait their turn.
+    const [dialogs, setDialogs] = useState<OpenDialog[]>([]);
+    const nextId = useRef(0);
+
+    const dismissToast = useCallback((id: string) => {
+        setToasts(prev => prev.filter(toast => toast.id !== id));
+    }, []);
+
+    const notify = useCallback((toast: Omit<Toast, 'id'>) => {
+        const id = `toast-${nextId.current++}`;
+        setToasts(prev => [...prev, { ...toast, id }]);
+        window.setTimeout(() => dismissToast(id), toast.actions?.length ? TOAST_WITH_ACTIONS_DURATION_MS : TOAST_DURATION_MS);
+    }, [dismissToast]);
+
+    const showBanner = useCallback((banner: Banner) => {
+        setBanners(prev => [...prev.filter(other => other.id !== banner.id), banner]);
+    }, []);
+
+    const dismissBanner = useCallback((id: string) => {
+        setBanners(prev => prev.filter(banner => banner.id !== id));
+    }, []);
+
+    const openDialog = useCallback((dialog: Omit<OpenDialog, 'resolve'>) => new Promise<DialogResult>(resolve => {
+        setDialogs(prev => [...prev, { ...dialog, resolve }]);
+    }), []);
+
+    const confirm = useCallback(async (options: DialogOptions & { cancelLabel?: string }) =>
+        (await openDialog({ confirmLabel: 'OK', cancelLabel: 'Cancel', ...options })) === 'confirmed', [openDialog]);
+
+    const choose = useCallback((options: DialogOptions & { cancelLabel: string }) =>
+        openDialog({ confirmLabel: 'OK', ...options }), [openDialog]);
+
+    const showDialog = useCallback(async (options: DialogOptions) => {
+        await openDialog({ confirmLabel: 'OK', ...options });
+    }, [openDialog]);
+
+    const closeDialog = useCallback((result: DialogResult) => {
+        dialogs[0]?.resolve(result);
+        setDialogs(prev => prev.slice(1));
+    }, [dialogs]);
+
+    const showSessionExpired = useCallback(() => {
+        showBanner({
+            id: SESSION_EXPIRED_BANNER,
+            kind: 'error',
+            message: "Your session has expired. Log in again to keep going.",
+            actions: [{ label: 'Log in again', onClick: () => loginWithRedirect() }],
+        });
+    }, [showBanner, loginWithRedirect]);
+
+    // Errors from the service layer are typed (see services/geminiService.ts), so each gets the action that fixes it.
+    const notifyError = useCallback((error: unknown, options: { fallback?: string; retry?: NotificationAction } = {}) => {
+        if (error instanceof AuthExpiredError) {
+            showSessionExpired();
+            return;
+        }
+        if (error instanceof OutOfCreditsError) {
+            notify({
+                kind: 'error',
+                message: error.message,
+                actions: [{ label: 'Buy credits', onClick: () => window.open(BUY_CREDITS_URL, '_blank', 'noopener,noreferrer') }],
+            });
+            return;
+        }
+        const message = error instanceof Error ? error.message : (options.fallback ?? "Something went wrong. Please try again.");
+        notify({ kind: 'error', message, actions: options.retry ? [options.retry] : undefined });
+    }, [notify, showSessionExpired]);
+
+    // The background credit sync notices an expired session even when nothing else is happening.
+    useEffect(() => {
+        if (sessionExpired) showSessionExpired();
+    }, [sessionExpired, showSessionExpired]);
+
+    const value: NotificationContextType = {
+        notify,
+        showBanner,
+        dismissBanner,
+        confirm,
+        choose,
+        showDialog,
+        notifyError,
+    };
+
+    return (
+        <NotificationContext.Provider value={value}>
+            {children}
+            <NotificationCenter
+                toasts={toasts}
+                banners={banners}
+                dialog={dialogs[0]}
+                onDismissToast={dismissToast}
+                onDismissBanner={dismissBanner}
+                onCloseDialog={closeDialog}
+            />
+        </NotificationContext.Provider>
+    );
+};
@@ -8,8 +8,12 @@ import { Auth0Provider, useAuth0 } from '@auth0/auth0-react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import App from './App';
 import { UserProvider } from './contexts/AuthContext';
+import { NotificationProvider } from './contexts/NotificationContext';
 import DebugPage from './pages/DebugPage';
 import AdminPage from './pages/AdminPage';
+import CreditHistoryPage from './pages/CreditHistoryPage';
+import GalleryPage from './pages/GalleryPage';
+import SharedAlbumPage from './pages/SharedAlbumPage';
 
 // --- Simple Error Boundary for Catching Critical Errors ---
 interface ErrorBoundaryProps {
@@ -95,7 +99,6 @@ const DevProvider = ({ children }: { children: ReactNode }) => {
         getAccessTokenSilently: async () => 'dev-token',
         credits: 99,
         isAdmin: true,
-        deductCredit: () => console.log('Mock credit deducted.'),
     };
 
     return (
@@ -108,11 +111,16 @@ const DevProvider = ({ children }: { children: ReactNode }) => {
 const AppWrapper = () => {
     return (
         <BrowserRouter>
-            <Routes>
-                <Route path="/" element={<App />} />
-                <Route path="/debug" element={<DebugPage />} />
-                <Route path="/admin" element={<AdminPage />} />
-            </Routes>
+            <NotificationProvider>
+                <Routes>
+                    <Route path="/" element={<App />} />
+                    <Route path="/debug" element={<DebugPage />} />
+                    <Route path="/admin" element={<AdminPage />} />
+                    <Route path="/credits" element={<CreditHistoryPage />} />
+                    <Route path="/gallery" element={<GalleryPage />} />
+                    <Route path="/s/:slug" element={<SharedAlbumPage />} />
+                </Routes>
+            </NotificationProvider>
         </BrowserRouter>
     );
 };
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface AdaptivePoolOptions {
+    maxConcurrency: number;
+    /** Whether a task's error means the server is overloaded, so fewer tasks should run at once. */
+    isBackoffError: (error: unknown) => boolean;
+    /** How long to wait before starting more tasks after such an error. */
+    backoffDelayMs: (error: unknown) => number;
+    /** Stops starting tasks. Tasks that have not started are rejected with the signal's reason. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs `task` for every item, with at most `maxConcurrency` tasks running at once.
+ * When a task fails with a backoff error, the limit is halved and no new task starts until the delay has passed;
+ * each success after that raises the limit by one again, up to `maxConcurrency`.
+ * @returns The outcome of every task, in the order of `items`. When aborted, it resolves once the running tasks settle.
+ */
+export function runAdaptivePool<T, R>(items: T[], task: (item: T) => Promise<R>, options: AdaptivePoolOptions): Promise<PromiseSettledResult<R>[]> {
+    const maxConcurrency = Math.max(1, Math.floor(options.maxConcurrency));
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let limit = maxConcurrency;
+    let pausedUntil = 0;
+    let next = 0;
+    let running = 0;
+    let settled = 0;
+    let resumeTimer: number | undefined;
+
+    return new Promise(resolve => {
+        if (items.length === 0) {
+            resolve(results);
+            return;
+        }
+
+        const startTasks = () => {
+            if (options.signal?.aborted) {
+                for (; next < items.length; next++) {
+                    results[next] = { status: 'rejected', reason: options.signal.reason };
+                    settled++;
+                }
+                if (settled === items.length) resolve(results);
+                return;
+            }
+            if (resumeTimer !== undefined) return;
+            const wait = pausedUntil - Date.now();
+            if (wait > 0) {
+                resumeTimer = window.setTimeout(() => {
+                    resumeTimer = undefined;
+                    startTasks();
+                }, wait);
+                return;
+            }
+            while (running < limit && next < items.length) {
+                startTask(next++);
+            }
+        };
+
+        const startTask = (index: number) => {
+            running++;
+            task(items[index])
+                .then(value => {
+                    results[index] = { status: 'fulfilled', value };
+                    limit = Math.min(maxConcurrency, limit + 1);
+                })
+                .catch(reason => {
+                    results[index] = { status: 'rejected', reason };
+                    if (options.isBackoffError(reason)) {
+                        limit = Math.max(1, Math.floor(limit / 2));
+                        pausedUntil = Math.max(pausedUntil, Date.now() + options.backoffDelayMs(reason));
+                        console.warn(`Backing off: running at most ${limit} at a time.`);
+                    }
+                })
+                .finally(() => {
+                    running--;
+                    settled++;
+                    if (settled === items.length) resolve(results);
+                    else startTasks();
+                });
+        };
+
+        options.signal?.addEventListener('abort', () => {
+            window.clearTimeout(resumeTimer);
+            resumeTimer = undefined;
+            startTasks();
+        }, { once: true });
+        startTasks();
+    });
+}
@@ -2,6 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { isFutureEra } from './eras';
+
+// The album page fits any number of eras: more columns as there are more, and as many rows as they need.
+const getAlbumGrid = (count: number) => {
+    const cols = count <= 2 ? Math.max(count, 1) : count <= 6 ? 2 : count <= 12 ? 3 : count <= 20 ? 4 : 5;
+    return { cols, rows: Math.max(1, Math.ceil(count / cols)), padding: 80 };
+};
+
 // Helper function to load an image and return it as an HTMLImageElement
 function loadImage(src: string): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
@@ -16,10 +24,11 @@ function loadImage(src: string): Promise<HTMLImageElement> {
 
 /**
  * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping decade strings to their image data URLs.
+ * @param imageData A record mapping decade strings to their image data URLs, in the order they are laid out.
+ * @param region The name of the region the timeline is set in, e.g. 'Québec'. It titles the page and goes under each caption.
  * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
+export async function createAlbumPage(imageData: Record<string, string>, region?: string): Promise<string> {
     const canvas = document.createElement('canvas');
     // High-resolution canvas for good quality (A4-like ratio)
     const canvasWidth = 2480;
@@ -41,11 +50,11 @@ export async function createAlbumPage(imageData: Record<string, string>): Promis
     ctx.textAlign = 'center';
 
     ctx.font = `bold 100px 'Caveat', cursive`;
-    ctx.fillText('Generated with RetroSnap', canvasWidth / 2, 150);
+    ctx.fillText(region ? `${region} through the years` : 'Generated with RetroSnap', canvasWidth / 2, 150);
 
     ctx.font = `50px 'Roboto', sans-serif`;
     ctx.fillStyle = '#555';
-    ctx.fillText('on Google AI Studio', canvasWidth / 2, 220);
+    ctx.fillText(region ? 'Generated with RetroSnap on Google AI Studio' : 'on Google AI Studio', canvasWidth / 2, 220);
 
     // 3. Load all the polaroid images concurrently
     const decades = Object.keys(imageData);
@@ -59,7 +68,7 @@ export async function createAlbumPage(imageData: Record<string, string>): Promis
     }));
 
     // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 3, rows: 4, padding: 80 };
+    const grid = getAlbumGrid(imagesWithDecades.length);
     const contentTopMargin = 300; // Space for the header
     const contentHeight = canvasHeight - contentTopMargin;
     const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
@@ -89,9 +98,12 @@ export async function createAlbumPage(imageData: Record<string, string>): Promis
 
         const row = Math.floor(index / grid.cols);
         const col = index % grid.cols;
+        // A last row that is not full is centered
+        const colsInRow = Math.min(grid.cols, imagesWithDecades.length - row * grid.cols);
+        const rowOffset = (grid.cols - colsInRow) * (cellWidth + grid.padding) / 2;
 
         // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
+        const x = rowOffset + grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
         const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
         
         ctx.save();
@@ -135,9 +147,10 @@ export async function createAlbumPage(imageData: Record<string, string>): Promis
         
         ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
         
-        // Draw the handwritten caption
+        // Draw the handwritten caption, smaller on a crowded page
+        const captionFontSize = Math.min(45, polaroidWidth * 0.1);
         ctx.fillStyle = '#222';
-        ctx.font = `45px 'Permanent Marker', cursive`;
+        ctx.font = `${captionFontSize}px 'Permanent Marker', cursive`;
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
 
@@ -145,7 +158,17 @@ export async function createAlbumPage(imageData: Record<string, string>): Promis
         const captionAreaBottom = polaroidHeight / 2;
         const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
 
-        ctx.fillText(decade, 0, captionY);
+        // The region, and whether the era is imagined, go on a second line under the caption
+        const note = [region, isFutureEra(decade) ? 'Imagined' : undefined].filter(Boolean).join(' · ');
+        if (note) {
+            const noteFontSize = captionFontSize * 0.5;
+            ctx.fillText(decade, 0, captionY - noteFontSize / 2);
+            ctx.fillStyle = isFutureEra(decade) ? '#0369a1' : '#555';
+            ctx.font = `${noteFontSize}px 'Roboto', sans-serif`;
+            ctx.fillText(note.toUpperCase(), 0, captionY + captionFontSize / 2);
+        } else {
+            ctx.fillText(decade, 0, captionY);
+        }
         
         ctx.restore(); // Restore context to pre-transformation state
     });
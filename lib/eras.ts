@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The eras a timeline can include, oldest first. Each is a `decade:` style in the server's catalog (netlify/lib/styles.ts).
+// Eras from FIRST_FUTURE_ERA_YEAR on have not happened yet; the server imagines them with a prompt of their own.
+export const FIRST_ERA_YEAR = 1850;
+export const FIRST_FUTURE_ERA_YEAR = 2030;
+export const LAST_ERA_YEAR = 2100;
+export const ERAS = Array.from({ length: (LAST_ERA_YEAR - FIRST_ERA_YEAR) / 10 + 1 }, (_, i) => `${FIRST_ERA_YEAR + i * 10}s`);
+
+export type TimelineStep = 'decade' | 'quarter-century' | 'generation';
+
+export const TIMELINE_STEPS: { id: TimelineStep; label: string; years: number }[] = [
+    { id: 'decade', label: 'Every decade', years: 10 },
+    { id: 'quarter-century', label: 'Every quarter-century', years: 25 },
+    { id: 'generation', label: 'Every generation', years: 30 },
+];
+
+export interface TimelineRange {
+    startYear: number;
+    endYear: number;
+    step: TimelineStep;
+}
+
+// The timeline the app has always offered, and still preselects.
+export const DEFAULT_TIMELINE: TimelineRange = { startYear: 1900, endYear: 2010, step: 'decade' };
+
+// Ready-made ranges offered above the era picker.
+export const TIMELINE_PRESETS: { label: string; range: TimelineRange }[] = [
+    { label: 'Classic', range: DEFAULT_TIMELINE },
+    { label: 'The future', range: { startYear: FIRST_FUTURE_ERA_YEAR, endYear: LAST_ERA_YEAR, step: 'decade' } },
+    { label: 'Past to future', range: { startYear: 1900, endYear: LAST_ERA_YEAR, step: 'quarter-century' } },
+];
+
+export const isEra = (label: string): boolean => ERAS.includes(label);
+
+export const isFutureEra = (label: string): boolean => isEra(label) && parseInt(label, 10) >= FIRST_FUTURE_ERA_YEAR;
+
+/**
+ * The era a year falls in, e.g. '1920s' for 1925.
+ */
+export const eraOf = (year: number): string => `${Math.floor(year / 10) * 10}s`;
+
+/**
+ * Orders eras from oldest to newest, dropping duplicates and anything that is not an era.
+ */
+export const sortEras = (eras: Iterable<string>): string[] => {
+    const chosen = new Set(eras);
+    return ERAS.filter(era => chosen.has(era));
+};
+
+/**
+ * The eras from `startYear` to `endYear`, one every `step`. Steps longer than a decade land on the decade
+ * each year falls in, so a quarter-century timeline from 1900 has the 1900s, 1920s, 1950s, 1970s and so on.
+ */
+export const buildTimeline = (startYear: number, endYear: number, step: TimelineStep): string[] => {
+    const years = TIMELINE_STEPS.find(s => s.id === step)?.years ?? 10;
+    const eras: string[] = [];
+    for (let year = startYear; year <= endYear; year += years) {
+        eras.push(eraOf(year));
+    }
+    return sortEras(eras);
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { StyleSelection } from '../services/geminiService';
+
+// The timeline being generated is kept in IndexedDB, so a reload or a crash does not lose the photo,
+// the finished decades or the session that was paid for. There is at most one per user.
+const DB_NAME = 'retrosnap';
+const DB_VERSION = 1;
+const STORE = 'timelines';
+
+export interface SavedDecade {
+    status: 'pending' | 'done' | 'error';
+    // Sent with every request for the decade, so one the server already received is replayed rather than charged again.
+    idempotencyKey: string;
+    // The style as first sent, with its prompt version. The request is only replayed if it is sent unchanged.
+    // Absent from timelines saved before styles were versioned.
+    style?: StyleSelection;
+    url?: string; // The watermarked result, as a data URL.
+    generationId?: string;
+    error?: string;
+}
+
+export interface SavedTimeline {
+    userId: string; // The Auth0 `sub` of the user who started it.
+    sessionId: string;
+    sessionExpiresAt: string;
+    concurrency: number;
+    sourceImage: string; // The resized upload, as a data URL. Resent unchanged, or the idempotency keys would not match.
+    region?: string; // The ID of the region the eras are set in, if any.
+    decades: Record<string, SavedDecade>;
+    savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: 'userId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again, e.g. after the user allowed storage.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+// Runs `run` in a transaction on the store, resolving with its result once the transaction has committed.
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE, mode);
+        const request = run(transaction.objectStore(STORE));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Saves a timeline, replacing the user's previous one.
+ * @param timeline The timeline, with every decade it will generate.
+ */
+export async function saveTimeline(timeline: SavedTimeline): Promise<void> {
+    await withStore('readwrite', store => { store.put(timeline); });
+}
+
+
+/**
+ * Records the state of one decade of the user's saved timeline.
+ * Does nothing when the timeline has since been cleared or replaced by another session.
+ * @param userId The user the timeline belongs to.
+ * @param sessionId The session the update belongs to.
+ * @param decade The decade, e.g. '1950s'.
+ * @param update The fields to change.
+ */
+export async function updateSavedDecade(userId: string, sessionId: string, decade: string, update: Partial<SavedDecade>): Promise<void> {
+    await withStore('readwrite', store => {
+        const request = store.get(userId);
+        request.onsuccess = () => {
+            const timeline: SavedTimeline | undefined = request.result;
+            if (!timeline || timeline.sessionId !== sessionId || !timeline.decades[decade]) return;
+            timeline.decades[decade] = { ...timeline.decades[decade], ...update };
+            timeline.savedAt = Date.now();
+            store.put(timeline);
+        };
+    });
+}
+
+
+/**
+ * Loads the user's saved timeline.
+ * @param userId The user the timeline belongs to.
+ * @returns The timeline, or null if there is none.
+ */
+export async function loadTimeline(userId: string): Promise<SavedTimeline | null> {
+    const timeline = await withStore<SavedTimeline | undefined>('readonly', store => store.get(userId));
+    return timeline ?? null;
+}
+
+
+/**
+ * Deletes the user's saved timeline, once it has finished or been given up.
+ * @param userId The user the timeline belongs to.
+ */
+export async function clearTimeline(userId: string): Promise<void> {
+    await withStore('readwrite', store => { store.delete(userId); });
+}
@@ -3,48 +3,36 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import type { Handler, HandlerEvent } from "@netlify/functions";
-import { Pool } from 'pg';
+import { randomUUID } from 'crypto';
+import type { PoolClient } from 'pg';
+import { pool, dbInit, DATABASE_URL } from '../lib/db';
+import { authenticateRequest, AuthError, AuthenticatedUser } from '../lib/auth';
+import { SINGLE_GENERATION_COST, MAX_TIMELINE_DECADES, TIMELINE_SESSION_TTL_HOURS, getTimelineCost } from '../lib/pricing';
+import { checkRateLimit, getClientIp, RateLimitScope } from '../lib/rateLimit';
+import { buildGeminiRequest, isGenerationPath, GeminiRequestError, GeminiRequest, GENERATE_PATH } from '../lib/gemini';
+import { recordCreditTransaction, CreditReason } from '../lib/credits';
+import { imageStorage, runGeneration, GenerationPayment } from '../lib/generations';
+import { getJob, dispatchJob, failJob, cancelQueuedJobs, getJobPayment, getSiteOrigin, toJobResponse } from '../lib/jobs';
+import { parseIdempotencyKey, hashRequest, reserveIdempotencyKey, saveIdempotentJob, saveIdempotentResponse, IdempotencyError, IdempotencyRecord } from '../lib/idempotency';
+import { createShareSlug, getActiveSharedAlbum, MAX_SHARE_ITEMS, MAX_SHARE_TITLE_LENGTH, MAX_SHARE_EXPIRY_DAYS } from '../lib/shares';
+import { listStylePresets, listRegions } from '../lib/styles';
 
 // --- Environment Variables and Constants ---
 const { AUTH0_DOMAIN, API_KEY, CONTEXT, ADMIN_EMAIL } = process.env;
-// Prioritize the Netlify-specific variable, but fall back to the generic one for wider compatibility.
-const DATABASE_URL = process.env.NETLIFY_DATABASE_URL || process.env.DATABASE_URL;
-const GEMINI_API_BASE_URL = "https://generativelanguage.googleapis.com";
 const INITIAL_CREDITS = 36;
+// Synchronous `/generate` calls to Gemini are aborted after this long, and the credit is refunded.
+// Keep it below the client's 30 second request timeout so the client receives the refund response.
+// Queued jobs have their own, longer timeout; see lib/jobs.ts.
+const GEMINI_TIMEOUT_MS = parseInt(process.env.GEMINI_TIMEOUT_MS || '25000', 10);
+// How many decades of a timeline the app generates at once. Raise it for deployments with a higher Gemini quota.
+const TIMELINE_CONCURRENCY = Math.max(1, parseInt(process.env.TIMELINE_CONCURRENCY || '3', 10));
 
-// --- Database Pool Setup ---
-let pool: Pool;
-// Use a secure connection to Neon by default. In local dev, you might need to adjust this.
-if (DATABASE_URL) {
-    pool = new Pool({
-        connectionString: DATABASE_URL,
-        // The `sslmode=require` parameter in the DATABASE_URL provided by Netlify's Neon
-        // integration is sufficient for node-postgres to establish a secure connection.
-        // Explicitly setting `ssl: { rejectUnauthorized: false }` is not best practice.
-    });
-}
-
-// --- Database Initialization ---
-// This promise ensures the 'users' table exists before any requests are handled.
-const dbInit = pool ? (async () => {
-    try {
-        await pool.query(`
-            CREATE TABLE IF NOT EXISTS users (
-                id TEXT PRIMARY KEY,
-                email TEXT UNIQUE NOT NULL,
-                credits INTEGER NOT NULL DEFAULT ${INITIAL_CREDITS},
-                created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-                last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-            );
-        `);
-        console.log("Database table 'users' is ready.");
-    } catch (err) {
-        console.error("FATAL: Failed to initialize database table:", err);
-        // This will cause subsequent requests to fail, which is intended if the DB is not ready.
-        throw err;
-    }
-})() : Promise.reject("Neither NETLIFY_DATABASE_URL nor DATABASE_URL environment variable is set.");
-
+// PayPal webhook configuration. `PAYPAL_API_BASE` can point at the sandbox or at the local fake (see scripts/fake-paypal.ts).
+const { PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET, PAYPAL_WEBHOOK_ID } = process.env;
+const PAYPAL_API_BASE = process.env.PAYPAL_API_BASE || "https://api-m.paypal.com";
+// Credit packs keyed by the price paid, e.g. "5.00:36,10.00:80" grants 36 credits for a 5.00 payment.
+const PAYPAL_CREDIT_PACKS = process.env.PAYPAL_CREDIT_PACKS || "5.00:36";
+const PAYPAL_CURRENCY = process.env.PAYPAL_CURRENCY || "CAD";
 
 // --- Helper Functions ---
 const jsonResponse = (statusCode: number, body: object) => ({
@@ -65,11 +53,308 @@ const maskEmail = (email?: string): string => {
     return `${localPart.substring(0, 2)}...${localPart.slice(-1)}@${domain}`;
 };
 
-interface AuthenticatedUser {
-    email: string;
-    id: string; // The Auth0 `sub` identifier
+const rateLimitedResponse = (retryAfterSeconds: number) => {
+    const response = jsonResponse(429, { error: `Too many requests. Please try again in ${retryAfterSeconds} seconds.`, retryAfter: retryAfterSeconds });
+    return { ...response, headers: { ...response.headers, 'Retry-After': String(retryAfterSeconds) } };
+};
+
+// The fields of a generation that are shown in the gallery.
+const GALLERY_COLUMNS = 'id, style_id, style_label, style_version, region, session_id, mime_type, created_at';
+
+// --- Generation Charges ---
+class GenerationChargeError extends Error {
+    constructor(public statusCode: number, message: string) {
+        super(message);
+        this.name = 'GenerationChargeError';
+    }
+}
+
+/**
+ * Records a new generation and pays for it: with a slot of its timeline session while the session has slots left
+ * (decades only), and otherwise with a credit.
+ * Must be called on a client inside an open transaction; the caller commits, or rolls back on a GenerationChargeError.
+ * @throws GenerationChargeError with the HTTP status to respond with, if the generation cannot be paid for.
+ */
+const chargeGeneration = async (client: PoolClient, user: AuthenticatedUser, geminiRequest: GeminiRequest, requestedSessionId?: string): Promise<GenerationPayment> => {
+    const userRes = await client.query<{ credits: number }>('SELECT credits FROM users WHERE id = $1 FOR UPDATE', [user.id]);
+    if (userRes.rows.length === 0) {
+        // This is a safeguard. The user should have been created by /user-data.
+        throw new GenerationChargeError(404, "User not found. Please log in again to initialize your account.");
+    }
+
+    const generationId = randomUUID();
+
+    // Decades of a paid timeline are covered by its session, as long as it has slots left. Other styles are always charged.
+    const sessionId = geminiRequest.style.kind === 'decade' ? requestedSessionId || undefined : undefined;
+    let usedSessionSlot = false;
+    if (sessionId) {
+        const sessionRes = await client.query<{ generation_allowance: number; generations_used: number; expired: boolean; cancelled_at: Date | null }>(
+            `SELECT generation_allowance, generations_used, expires_at < NOW() AS expired, cancelled_at
+             FROM timeline_sessions WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+            [sessionId, user.id]
+        );
+        if (sessionRes.rows.length === 0) throw new GenerationChargeError(404, "Timeline session not found.");
+        const session = sessionRes.rows[0];
+        // Decades requested after a cancellation (e.g. by requests that were already on their way) are not run or charged.
+        if (session.cancelled_at) throw new GenerationChargeError(409, "This timeline was cancelled.");
+        if (!session.expired && session.generations_used < session.generation_allowance) {
+            await client.query('UPDATE timeline_sessions SET generations_used = generations_used + 1 WHERE id = $1', [sessionId]);
+            usedSessionSlot = true;
+        }
+    }
+
+    await client.query(
+        'INSERT INTO generations (id, user_id, style_id, style_label, style_version, region, prompt, session_id, model) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)',
+        [generationId, user.id, geminiRequest.style.id, geminiRequest.style.label, geminiRequest.style.version, geminiRequest.style.region, geminiRequest.style.prompt, sessionId ?? null, geminiRequest.model]
+    );
+
+    if (usedSessionSlot) {
+        console.log(`Generation ${generationId} (${geminiRequest.style.id}) for ${maskEmail(user.email)} is covered by timeline session ${sessionId}.`);
+    } else {
+        if (userRes.rows[0].credits < SINGLE_GENERATION_COST) {
+            console.log(`Request blocked for user ${maskEmail(user.email)}: Out of credits.`);
+            throw new GenerationChargeError(402, "You are out of credits.");
+        }
+        const newBalance = await recordCreditTransaction(client, { userId: user.id, amount: -SINGLE_GENERATION_COST, reason: 'generation', generationId, sessionId });
+        console.log(`Credit deducted for ${maskEmail(user.email)} (generation ${generationId}, ${geminiRequest.style.id}). New balance: ${newBalance}`);
+    }
+
+    return { userId: user.id, generationId, sessionId, usedSessionSlot };
+};
+
+/**
+ * Answers a duplicate of an earlier generation request with that request's outcome:
+ * its job as it is now, or the response it returned.
+ */
+const replayGenerationResponse = async (earlier: IdempotencyRecord, userId: string) => {
+    if (!earlier.response && !earlier.job_id) {
+        const response = jsonResponse(409, { error: "The original request is still in progress. Please try again shortly." });
+        return { ...response, headers: { ...response.headers, 'Retry-After': '5' } };
+    }
+    const job = earlier.job_id ? await getJob(pool, earlier.job_id, userId) : null;
+    if (earlier.job_id && !job) {
+        return jsonResponse(409, { error: "The job for this Idempotency-Key no longer exists. Send the request again with a new key." });
+    }
+    const response = job ? jsonResponse(202, toJobResponse(job)) : earlier.response!;
+    return { ...response, headers: { ...response.headers, 'Idempotent-Replayed': 'true' } };
+};
+
+// --- Admin Actions ---
+type AdminAction = 'credits_grant' | 'credits_revoke' | 'credits_set' | 'email_update';
+
+interface AdminAuditEntry {
+    admin: AuthenticatedUser;
+    action: AdminAction;
+    targetUserId: string;
+    reason: string;
+    details: object;
+}
+
+/** Appends an entry to the admin audit trail. Call it in the same transaction as the change it describes. */
+const recordAdminAction = async (client: PoolClient, entry: AdminAuditEntry): Promise<void> => {
+    await client.query(
+        `INSERT INTO admin_audit_log (admin_id, admin_email, action, target_user_id, reason, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [entry.admin.id, entry.admin.email, entry.action, entry.targetUserId, entry.reason, JSON.stringify(entry.details)]
+    );
+};
+
+const parseJsonBody = (event: HandlerEvent): any => {
+    try {
+        return JSON.parse(event.body || '{}');
+    } catch {
+        return null;
+    }
+};
+
+const MAX_ADMIN_CREDIT_AMOUNT = 100000;
+
+// --- PayPal Webhook ---
+interface PayPalOrderDetails {
+    orderId: string;
+    payerEmail?: string;
+    amount?: string;
+    currency?: string;
 }
 
+/** Parses PAYPAL_CREDIT_PACKS into a map of price (normalized to two decimals) to credits. */
+const parseCreditPacks = (config: string): Map<string, number> => {
+    const packs = new Map<string, number>();
+    for (const entry of config.split(',')) {
+        const [price, credits] = entry.split(':').map(part => part.trim());
+        const parsedPrice = Number(price);
+        const parsedCredits = parseInt(credits, 10);
+        if (!Number.isFinite(parsedPrice) || !Number.isInteger(parsedCredits) || parsedCredits <= 0) {
+            console.error(`Ignoring invalid PAYPAL_CREDIT_PACKS entry: "${entry}"`);
+            continue;
+        }
+        packs.set(parsedPrice.toFixed(2), parsedCredits);
+    }
+    return packs;
+};
+
+const creditPacks = parseCreditPacks(PAYPAL_CREDIT_PACKS);
+
+const getPayPalAccessToken = async (): Promise<string> => {
+    const credentials = Buffer.from(`${PAYPAL_CLIENT_ID}:${PAYPAL_CLIENT_SECRET}`).toString('base64');
+    const response = await fetch(`${PAYPAL_API_BASE}/v1/oauth2/token`, {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'grant_type=client_credentials',
+    });
+    if (!response.ok) throw new Error(`PayPal OAuth failed with status ${response.status}`);
+    const data = await response.json();
+    return data.access_token;
+};
+
+/**
+ * Asks PayPal to verify the webhook's transmission signature against our webhook ID.
+ * @returns True only if PayPal confirms the event was sent by PayPal for this webhook.
+ */
+const verifyPayPalSignature = async (headers: HandlerEvent['headers'], webhookEvent: object, accessToken: string): Promise<boolean> => {
+    const response = await fetch(`${PAYPAL_API_BASE}/v1/notifications/verify-webhook-signature`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            auth_algo: headers['paypal-auth-algo'],
+            cert_url: headers['paypal-cert-url'],
+            transmission_id: headers['paypal-transmission-id'],
+            transmission_sig: headers['paypal-transmission-sig'],
+            transmission_time: headers['paypal-transmission-time'],
+            webhook_id: PAYPAL_WEBHOOK_ID,
+            webhook_event: webhookEvent,
+        }),
+    });
+    if (!response.ok) {
+        console.error(`PayPal signature verification request failed with status ${response.status}`);
+        return false;
+    }
+    const data = await response.json();
+    return data.verification_status === 'SUCCESS';
+};
+
+const fetchPayPalOrder = async (orderId: string, accessToken: string): Promise<PayPalOrderDetails> => {
+    const response = await fetch(`${PAYPAL_API_BASE}/v2/checkout/orders/${encodeURIComponent(orderId)}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) throw new Error(`Failed to fetch PayPal order ${orderId} (status ${response.status})`);
+    const order = await response.json();
+    return {
+        orderId,
+        payerEmail: order.payer?.email_address,
+        amount: order.purchase_units?.[0]?.amount?.value,
+        currency: order.purchase_units?.[0]?.amount?.currency_code,
+    };
+};
+
+/**
+ * Handles `POST /paypal/webhook`. This route is public: it is authenticated by PayPal's
+ * signature rather than an Auth0 token.
+ */
+const handlePayPalWebhook = async (event: HandlerEvent) => {
+    if (!PAYPAL_CLIENT_ID || !PAYPAL_CLIENT_SECRET || !PAYPAL_WEBHOOK_ID) {
+        console.error("PayPal webhook received but PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET or PAYPAL_WEBHOOK_ID is not set.");
+        return jsonResponse(500, { error: "PayPal integration is not configured." });
+    }
+
+    let webhookEvent: any;
+    try {
+        const rawBody = event.isBase64Encoded && event.body ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+        webhookEvent = JSON.parse(rawBody || '');
+    } catch {
+        return jsonResponse(400, { error: "Invalid webhook payload." });
+    }
+
+    let accessToken: string;
+    try {
+        accessToken = await getPayPalAccessToken();
+        if (!(await verifyPayPalSignature(event.headers, webhookEvent, accessToken))) {
+            console.warn(`Rejected PayPal webhook ${webhookEvent?.id}: signature verification failed.`);
+            return jsonResponse(401, { error: "Invalid webhook signature." });
+        }
+    } catch (error) {
+        console.error("Error verifying PayPal webhook signature:", error);
+        // A non-2xx response makes PayPal redeliver the event later.
+        return jsonResponse(502, { error: "Could not verify webhook signature.", details: getErrorMessage(error) });
+    }
+
+    // Both events can arrive for the same order; whichever is processed first grants the credits.
+    let order: PayPalOrderDetails;
+    try {
+        const resource = webhookEvent.resource || {};
+        if (webhookEvent.event_type === 'CHECKOUT.ORDER.COMPLETED') {
+            order = {
+                orderId: resource.id,
+                payerEmail: resource.payer?.email_address,
+                amount: resource.purchase_units?.[0]?.amount?.value,
+                currency: resource.purchase_units?.[0]?.amount?.currency_code,
+            };
+        } else if (webhookEvent.event_type === 'PAYMENT.CAPTURE.COMPLETED') {
+            // Capture events do not include the payer, so look the order up.
+            const orderId = resource.supplementary_data?.related_ids?.order_id;
+            if (!orderId) return jsonResponse(200, { status: 'ignored', reason: 'Capture is not linked to an order.' });
+            order = await fetchPayPalOrder(orderId, accessToken);
+        } else {
+            return jsonResponse(200, { status: 'ignored', reason: `Unhandled event type ${webhookEvent.event_type}.` });
+        }
+    } catch (error) {
+        console.error(`Error reading PayPal order for webhook ${webhookEvent.id}:`, error);
+        return jsonResponse(502, { error: "Could not read PayPal order.", details: getErrorMessage(error) });
+    }
+
+    if (!order.orderId) return jsonResponse(400, { error: "Webhook event does not reference an order." });
+
+    const price = Number(order.amount);
+    const credits = order.currency === PAYPAL_CURRENCY && Number.isFinite(price) ? creditPacks.get(price.toFixed(2)) : undefined;
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const userResult = order.payerEmail
+            ? await client.query('SELECT id FROM users WHERE LOWER(email) = LOWER($1)', [order.payerEmail])
+            : { rowCount: 0, rows: [] };
+        const userId: string | null = userResult.rowCount > 0 ? userResult.rows[0].id : null;
+
+        // Unmatched orders are still recorded so support can resolve them by hand.
+        const status = !credits ? 'unknown_pack' : !userId ? 'unmatched_payer' : 'granted';
+
+        const insertResult = await client.query(
+            `INSERT INTO paypal_orders (order_id, event_id, event_type, status, user_id, payer_email, amount, currency, credits)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             ON CONFLICT (order_id) DO NOTHING`,
+            [order.orderId, webhookEvent.id, webhookEvent.event_type, status, userId, order.payerEmail ?? null, order.amount ?? null, order.currency ?? null, credits ?? null]
+        );
+
+        if (insertResult.rowCount === 0) {
+            await client.query('ROLLBACK');
+            console.log(`PayPal order ${order.orderId} was already processed. Ignoring redelivered event ${webhookEvent.id}.`);
+            return jsonResponse(200, { status: 'duplicate' });
+        }
+
+        if (status === 'granted') {
+            const newBalance = await recordCreditTransaction(client, {
+                userId: userId!,
+                amount: credits!,
+                reason: 'purchase',
+                purchaseId: order.orderId,
+                note: `PayPal ${order.amount} ${order.currency}`,
+            });
+            console.log(`Granted ${credits} credits to ${maskEmail(order.payerEmail)} for PayPal order ${order.orderId}. New balance: ${newBalance}`);
+        } else {
+            console.warn(`PayPal order ${order.orderId} recorded without granting credits (${status}). Payer: ${maskEmail(order.payerEmail)}, amount: ${order.amount} ${order.currency}`);
+        }
+
+        await client.query('COMMIT');
+        return jsonResponse(200, { status });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`Error processing PayPal order ${order.orderId}:`, error);
+        return jsonResponse(500, { error: "Failed to process PayPal order.", details: getErrorMessage(error) });
+    } finally {
+        client.release();
+    }
+};
+
 const handler: Handler = async (event: HandlerEvent) => {
     // --- Environment Validation ---
     if (!pool || !DATABASE_URL || !AUTH0_DOMAIN || !API_KEY || !ADMIN_EMAIL) {
@@ -77,6 +362,65 @@ const handler: Handler = async (event: HandlerEvent) => {
         return jsonResponse(500, { error: "Server configuration error." });
     }
 
+    const requestPath = event.path.replace('/api-proxy', '');
+
+    // --- PUBLIC ROUTES (no Auth0 token) ---
+    if (requestPath === '/paypal/webhook' && event.httpMethod === 'POST') {
+        await dbInit;
+        return handlePayPalWebhook(event);
+    }
+
+    // --- Rate Limiting (per IP) ---
+    // Every request is limited per IP before its token is verified, so requests with missing or forged tokens are counted too.
+    // Authenticated requests are also limited per user below.
+    await dbInit; // Ensure the database schema is migrated before proceeding.
+    const isJobRequest = event.httpMethod === 'POST' && requestPath === '/jobs';
+    const isGenerationRequest = isJobRequest || (event.httpMethod === 'POST' && isGenerationPath(requestPath));
+    const isPollRequest = event.httpMethod === 'GET' && /^\/jobs\/[^/]+$/.test(requestPath);
+    const rateLimitScope: RateLimitScope = isGenerationRequest ? 'generate' : isPollRequest ? 'poll' : 'default';
+    const clientIp = getClientIp(event.headers);
+    const ipLimit = await checkRateLimit(pool, rateLimitScope, { ip: clientIp });
+    if (!ipLimit.allowed) {
+        console.log(`Rate limit exceeded for IP ${clientIp} (${rateLimitScope}). Retry after ${ipLimit.retryAfterSeconds}s.`);
+        return rateLimitedResponse(ipLimit.retryAfterSeconds);
+    }
+
+    // --- PUBLIC SHARED ALBUM ROUTES (/public/shares/:slug) ---
+    // Read-only views of albums their owners have shared. No login is required, but the per-IP limit above applies.
+    const publicShareMatch = requestPath.match(/^\/public\/shares\/([^/]+)(?:\/images\/([^/]+))?$/);
+    if (publicShareMatch && event.httpMethod === 'GET') {
+        const slug = decodeURIComponent(publicShareMatch[1]);
+        const imageId = publicShareMatch[2] && decodeURIComponent(publicShareMatch[2]);
+        try {
+            const album = await getActiveSharedAlbum(pool, slug);
+            if (!album) return jsonResponse(404, { error: "This album is no longer available." });
+
+            if (!imageId) {
+                return jsonResponse(200, {
+                    slug: album.slug,
+                    title: album.title,
+                    createdAt: album.created_at,
+                    expiresAt: album.expires_at,
+                    items: album.items.map(item => ({ id: item.id, label: item.style_label })),
+                });
+            }
+
+            const item = album.items.find(candidate => candidate.id === imageId);
+            const data = item && await imageStorage.get(item.storage_key);
+            if (!item || !data) return jsonResponse(404, { error: "Image not found." });
+            return {
+                statusCode: 200,
+                // Short-lived, so revoking a link takes effect soon even where the image was cached.
+                headers: { 'Content-Type': item.mime_type, 'Cache-Control': 'public, max-age=300' },
+                body: data.toString('base64'),
+                isBase64Encoded: true,
+            };
+        } catch (error) {
+            console.error(`Error serving shared album ${slug}:`, error);
+            return jsonResponse(500, { error: "Failed to load the shared album.", details: getErrorMessage(error) });
+        }
+    }
+
     // --- Authentication & User Identification ---
     let user: AuthenticatedUser;
     const authHeader = event.headers['authorization'];
@@ -85,27 +429,27 @@ const handler: Handler = async (event: HandlerEvent) => {
     if (isDevRequest) {
         user = { email: 'dev@example.com', id: 'auth0|dev-user-12345' };
     } else {
-        if (!authHeader) return jsonResponse(401, { error: "Unauthorized: Missing Authorization header." });
         try {
-            const userInfoResponse = await fetch(`https://${AUTH0_DOMAIN}/userinfo`, { headers: { Authorization: authHeader } });
-            if (!userInfoResponse.ok) return jsonResponse(401, { error: "Unauthorized: Invalid token." });
-            const userInfo = await userInfoResponse.json();
-            if (!userInfo || typeof userInfo.email !== 'string' || typeof userInfo.sub !== 'string') {
-                return jsonResponse(400, { error: "User email or ID not found in token." });
-            }
-            user = { email: userInfo.email, id: userInfo.sub };
+            // Tokens are verified locally against Auth0's cached signing keys; see lib/auth.ts.
+            user = await authenticateRequest(authHeader);
         } catch (error) {
-            console.error("Error validating token with Auth0:", error);
+            if (error instanceof AuthError) return jsonResponse(error.statusCode, { error: error.message });
+            console.error("Error validating access token:", error);
             return jsonResponse(500, { error: "An internal error occurred during authentication.", details: getErrorMessage(error) });
         }
     }
     
     // --- API ROUTER ---
-    const requestPath = event.path.replace('/api-proxy', '');
     const isAdmin = user.email.trim().toLowerCase() === ADMIN_EMAIL.trim().toLowerCase();
     console.log(`[REQUEST] Path: ${requestPath} | User: ${maskEmail(user.email)} | IsAdmin: ${isAdmin}`);
-    
-    await dbInit; // Ensure the database table is ready before proceeding.
+
+    // --- Rate Limiting (per user) ---
+    // Checked before any credit is charged, so a rate-limited generation costs nothing.
+    const userLimit = await checkRateLimit(pool, rateLimitScope, { userId: user.id });
+    if (!userLimit.allowed) {
+        console.log(`Rate limit exceeded for ${maskEmail(user.email)} (${rateLimitScope}). Retry after ${userLimit.retryAfterSeconds}s.`);
+        return rateLimitedResponse(userLimit.retryAfterSeconds);
+    }
 
     // --- USER DATA ROUTE (/user-data) ---
     if (requestPath === '/user-data' && event.httpMethod === 'GET') {
@@ -119,16 +463,26 @@ const handler: Handler = async (event: HandlerEvent) => {
             if (userResult.rowCount > 0) {
                 // User exists, update last_seen and email
                 credits = userResult.rows[0].credits;
-                await client.query('UPDATE users SET last_seen_at = CURRENT_TIMESTAMP, email = $2 WHERE id = $1', [user.id, user.email]);
+                // Keep the email in sync with Auth0, unless an admin has corrected it by hand.
+                await client.query('UPDATE users SET last_seen_at = CURRENT_TIMESTAMP, email = CASE WHEN email_locked THEN email ELSE $2 END WHERE id = $1', [user.id, user.email]);
             } else {
-                // New user, insert with initial credits
-                const insertQuery = `INSERT INTO users (id, email, credits) VALUES ($1, $2, $3) RETURNING credits`;
-                const insertResult = await client.query(insertQuery, [user.id, user.email, INITIAL_CREDITS]);
-                credits = insertResult.rows[0].credits;
-                console.log(`Created new user record for ${maskEmail(user.email)}`);
+                // New user: create the record with an empty balance, then grant the initial credits through the ledger.
+                await client.query('BEGIN');
+                const insertQuery = `INSERT INTO users (id, email, credits) VALUES ($1, $2, 0) ON CONFLICT (id) DO NOTHING RETURNING credits`;
+                const insertResult = await client.query(insertQuery, [user.id, user.email]);
+                if (insertResult.rowCount > 0) {
+                    credits = await recordCreditTransaction(client, { userId: user.id, amount: INITIAL_CREDITS, reason: 'signup_bonus' });
+                    console.log(`Created new user record for ${maskEmail(user.email)}`);
+                } else {
+                    // A concurrent request created the user first.
+                    userResult = await client.query(findUserQuery, [user.id]);
+                    credits = userResult.rows[0].credits;
+                }
+                await client.query('COMMIT');
             }
             return jsonResponse(200, { isAdmin, credits });
         } catch (error) {
+            await client.query('ROLLBACK');
             console.error(`Error in /user-data for ${maskEmail(user.email)}:`, error);
             return jsonResponse(500, { error: "Failed to retrieve user data.", details: getErrorMessage(error) });
         } finally {
@@ -148,6 +502,289 @@ const handler: Handler = async (event: HandlerEvent) => {
         }
     }
     
+    // --- ADMIN USER MUTATION ROUTES (/admin/users/:id, /admin/users/:id/credits) ---
+    const adminUserMatch = requestPath.match(/^\/admin\/users\/([^/]+)(\/credits)?$/);
+    if (adminUserMatch && (event.httpMethod === 'POST' || event.httpMethod === 'PATCH')) {
+        if (!isAdmin) return jsonResponse(403, { error: "Forbidden: Access restricted to administrators." });
+        const targetUserId = decodeURIComponent(adminUserMatch[1]);
+        const isCreditsRoute = !!adminUserMatch[2];
+        if (isCreditsRoute !== (event.httpMethod === 'POST')) {
+            return jsonResponse(405, { error: `Method ${event.httpMethod} is not allowed on ${requestPath}.` });
+        }
+
+        const body = parseJsonBody(event);
+        const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+        if (!body) return jsonResponse(400, { error: "Request body must be valid JSON." });
+        if (!reason) return jsonResponse(400, { error: "A reason is required for every admin change." });
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            const targetResult = await client.query('SELECT id, email, credits FROM users WHERE id = $1 FOR UPDATE', [targetUserId]);
+            if (targetResult.rowCount === 0) {
+                await client.query('ROLLBACK');
+                return jsonResponse(404, { error: "User not found." });
+            }
+            const target = targetResult.rows[0];
+
+            if (isCreditsRoute) {
+                // POST /admin/users/:id/credits { action: 'grant' | 'revoke' | 'set', amount, reason }
+                const { action, amount } = body;
+                if (!['grant', 'revoke', 'set'].includes(action)) {
+                    await client.query('ROLLBACK');
+                    return jsonResponse(400, { error: "Action must be one of 'grant', 'revoke' or 'set'." });
+                }
+                if (!Number.isInteger(amount) || amount < 0 || amount > MAX_ADMIN_CREDIT_AMOUNT || (action !== 'set' && amount === 0)) {
+                    await client.query('ROLLBACK');
+                    return jsonResponse(400, { error: `Amount must be a whole number between ${action === 'set' ? 0 : 1} and ${MAX_ADMIN_CREDIT_AMOUNT}.` });
+                }
+
+                const delta = action === 'grant' ? amount : action === 'revoke' ? -amount : amount - target.credits;
+                if (target.credits + delta < 0) {
+                    await client.query('ROLLBACK');
+                    return jsonResponse(400, { error: `Cannot revoke ${amount} credits: the user only has ${target.credits}.` });
+                }
+
+                let newBalance = target.credits;
+                if (delta !== 0) {
+                    newBalance = await recordCreditTransaction(client, {
+                        userId: targetUserId,
+                        amount: delta,
+                        reason: `admin_${action}` as CreditReason,
+                        adminId: user.id,
+                        note: reason,
+                    });
+                }
+                await recordAdminAction(client, {
+                    admin: user,
+                    action: `credits_${action}` as AdminAction,
+                    targetUserId,
+                    reason,
+                    details: { amount, previousBalance: target.credits, newBalance },
+                });
+                await client.query('COMMIT');
+                console.log(`[ADMIN] ${maskEmail(user.email)} applied credits_${action} (${amount}) to ${maskEmail(target.email)}. Balance: ${target.credits} -> ${newBalance}`);
+                return jsonResponse(200, { id: targetUserId, email: target.email, credits: newBalance });
+            }
+
+            // PATCH /admin/users/:id { email, reason }
+            const email = typeof body.email === 'string' ? body.email.trim() : '';
+            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+                await client.query('ROLLBACK');
+                return jsonResponse(400, { error: "A valid email address is required." });
+            }
+            const conflict = await client.query('SELECT 1 FROM users WHERE LOWER(email) = LOWER($1) AND id <> $2', [email, targetUserId]);
+            if (conflict.rowCount > 0) {
+                await client.query('ROLLBACK');
+                return jsonResponse(409, { error: "Another user already has this email address." });
+            }
+            // Locking the email stops /user-data from overwriting the correction with the Auth0 value.
+            await client.query('UPDATE users SET email = $2, email_locked = TRUE WHERE id = $1', [targetUserId, email]);
+            await recordAdminAction(client, {
+                admin: user,
+                action: 'email_update',
+                targetUserId,
+                reason,
+                details: { previousEmail: target.email, newEmail: email },
+            });
+            await client.query('COMMIT');
+            console.log(`[ADMIN] ${maskEmail(user.email)} changed email of user ${targetUserId} from ${maskEmail(target.email)} to ${maskEmail(email)}`);
+            return jsonResponse(200, { id: targetUserId, email, credits: target.credits });
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error(`Error applying admin change to user ${targetUserId}:`, error);
+            return jsonResponse(500, { error: "Failed to update user.", details: getErrorMessage(error) });
+        } finally {
+            client.release();
+        }
+    }
+
+    // --- ADMIN AUDIT LOG ROUTE (/admin/audit-log) ---
+    if (requestPath === '/admin/audit-log' && event.httpMethod === 'GET') {
+        if (!isAdmin) return jsonResponse(403, { error: "Forbidden: Access restricted to administrators." });
+        try {
+            const result = await pool.query(
+                `SELECT a.id, a.admin_email, a.action, a.target_user_id, u.email AS target_email, a.reason, a.details, a.created_at
+                 FROM admin_audit_log a JOIN users u ON u.id = a.target_user_id
+                 ORDER BY a.created_at DESC, a.id DESC LIMIT 200`
+            );
+            return jsonResponse(200, result.rows);
+        } catch (error) {
+            console.error("Error fetching admin audit log:", error);
+            return jsonResponse(500, { error: "Failed to retrieve audit log.", details: getErrorMessage(error) });
+        }
+    }
+
+    // --- CREDIT HISTORY ROUTE (/credits/history) ---
+    // Users can read their own ledger. Admins may pass `?userId=` to inspect any user's ledger.
+    if (requestPath === '/credits/history' && event.httpMethod === 'GET') {
+        const params = event.queryStringParameters || {};
+        const targetUserId = params.userId || user.id;
+        if (targetUserId !== user.id && !isAdmin) {
+            return jsonResponse(403, { error: "Forbidden: You can only view your own credit history." });
+        }
+        const limit = Math.min(Math.max(parseInt(params.limit || '100', 10) || 100, 1), 500);
+        try {
+            const userResult = await pool.query('SELECT email, credits FROM users WHERE id = $1', [targetUserId]);
+            if (userResult.rowCount === 0) return jsonResponse(404, { error: "User not found." });
+
+            const [transactionsResult, sumResult] = await Promise.all([
+                pool.query(
+                    `SELECT id, amount, balance_after, reason, generation_id, session_id, purchase_id, admin_id, note, created_at
+                     FROM credit_transactions WHERE user_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2`,
+                    [targetUserId, limit]
+                ),
+                pool.query('SELECT COALESCE(SUM(amount), 0)::INTEGER AS total FROM credit_transactions WHERE user_id = $1', [targetUserId]),
+            ]);
+
+            return jsonResponse(200, {
+                userId: targetUserId,
+                email: userResult.rows[0].email,
+                balance: userResult.rows[0].credits,
+                // The sum of all ledger entries. It should always equal `balance`; a mismatch indicates a reconciliation issue.
+                ledgerBalance: sumResult.rows[0].total,
+                transactions: transactionsResult.rows,
+            });
+        } catch (error) {
+            console.error(`Error fetching credit history for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to retrieve credit history.", details: getErrorMessage(error) });
+        }
+    }
+
+    // --- STYLE ROUTE (/styles) ---
+    // The style presets the app offers, with their current prompt version and cost, and the regions eras can be set in.
+    // The prompts themselves stay here.
+    if (requestPath === '/styles' && event.httpMethod === 'GET') {
+        return jsonResponse(200, { styles: listStylePresets(), regions: listRegions() });
+    }
+
+    // --- TIMELINE SESSION ROUTES (/timeline-sessions, /timeline-sessions/quote, /timeline-sessions/:id/cancel) ---
+    // Prices a timeline before it is opened, so the app can show the cost of the eras the user picked.
+    if (requestPath === '/timeline-sessions/quote' && event.httpMethod === 'GET') {
+        const decadeCount = Number((event.queryStringParameters || {}).decadeCount);
+        if (!Number.isInteger(decadeCount) || decadeCount < 1 || decadeCount > MAX_TIMELINE_DECADES) {
+            return jsonResponse(400, { error: `decadeCount must be a whole number between 1 and ${MAX_TIMELINE_DECADES}.` });
+        }
+        return jsonResponse(200, { decadeCount, credits: getTimelineCost(decadeCount) });
+    }
+
+    // Opens a paid session for a timeline. Decade generations sent with its ID are not charged again.
+    if (requestPath === '/timeline-sessions' && event.httpMethod === 'POST') {
+        const body = parseJsonBody(event);
+        const decadeCount = body?.decadeCount;
+        if (!Number.isInteger(decadeCount) || decadeCount < 1 || decadeCount > MAX_TIMELINE_DECADES) {
+            return jsonResponse(400, { error: `decadeCount must be a whole number between 1 and ${MAX_TIMELINE_DECADES}.` });
+        }
+        const cost = getTimelineCost(decadeCount);
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            const userRes = await client.query('SELECT credits FROM users WHERE id = $1 FOR UPDATE', [user.id]);
+            if (userRes.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return jsonResponse(404, { error: "User not found. Please log in again to initialize your account." });
+            }
+            if (userRes.rows[0].credits < cost) {
+                await client.query('ROLLBACK');
+                console.log(`Timeline blocked for user ${maskEmail(user.email)}: needs ${cost} credits, has ${userRes.rows[0].credits}.`);
+                return jsonResponse(402, { error: "You are out of credits." });
+            }
+
+            const sessionId = randomUUID();
+            const sessionResult = await client.query(
+                `INSERT INTO timeline_sessions (id, user_id, generation_allowance, credits_charged, expires_at)
+                 VALUES ($1, $2, $3, $4, NOW() + make_interval(hours => $5)) RETURNING expires_at`,
+                [sessionId, user.id, decadeCount, cost, TIMELINE_SESSION_TTL_HOURS]
+            );
+            const newBalance = await recordCreditTransaction(client, { userId: user.id, amount: -cost, reason: 'timeline', sessionId });
+            await client.query('COMMIT');
+            console.log(`Opened timeline session ${sessionId} for ${maskEmail(user.email)} (${decadeCount} decades, ${cost} credits). New balance: ${newBalance}`);
+            return jsonResponse(201, {
+                sessionId,
+                decadeCount,
+                creditsCharged: cost,
+                credits: newBalance,
+                expiresAt: sessionResult.rows[0].expires_at,
+                concurrency: TIMELINE_CONCURRENCY,
+            });
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error(`Error opening timeline session for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to start the timeline.", details: getErrorMessage(error) });
+        } finally {
+            client.release();
+        }
+    }
+
+    // Stops a timeline: its queued decades are never run, and the session is re-priced for the decades that did start.
+    // Decades already running finish, and stay charged. Later decade requests for the session are rejected.
+    const cancelSessionMatch = requestPath.match(/^\/timeline-sessions\/([^/]+)\/cancel$/);
+    if (cancelSessionMatch && event.httpMethod === 'POST') {
+        const sessionId = decodeURIComponent(cancelSessionMatch[1]);
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            // Locked in the same order as chargeGeneration: the user, then the session.
+            const userRes = await client.query('SELECT credits FROM users WHERE id = $1 FOR UPDATE', [user.id]);
+            const sessionRes = await client.query(
+                'SELECT generations_used, credits_charged, cancelled_at FROM timeline_sessions WHERE id = $1 AND user_id = $2 FOR UPDATE',
+                [sessionId, user.id]
+            );
+            if (userRes.rows.length === 0 || sessionRes.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return jsonResponse(404, { error: "Timeline session not found." });
+            }
+            const session = sessionRes.rows[0];
+            if (session.cancelled_at) {
+                await client.query('ROLLBACK');
+                return jsonResponse(409, { error: "This timeline was already cancelled." });
+            }
+
+            const cancelled = await cancelQueuedJobs(client, sessionId);
+            const startedDecades = Math.max(0, session.generations_used - cancelled.filter(job => job.usedSessionSlot).length);
+            const sessionRefund = Math.max(0, session.credits_charged - (startedDecades > 0 ? getTimelineCost(startedDecades) : 0));
+            await client.query(
+                'UPDATE timeline_sessions SET cancelled_at = CURRENT_TIMESTAMP, generations_used = $2 WHERE id = $1',
+                [sessionId, startedDecades]
+            );
+
+            let newBalance: number = userRes.rows[0].credits;
+            if (sessionRefund > 0) {
+                newBalance = await recordCreditTransaction(client, {
+                    userId: user.id,
+                    amount: sessionRefund,
+                    reason: 'timeline_cancel',
+                    sessionId,
+                    note: `Timeline cancelled after ${startedDecades} decades`,
+                });
+            }
+            // Regenerations beyond the session's allowance were paid with a credit each.
+            const creditJobs = cancelled.filter(job => !job.usedSessionSlot);
+            for (const job of creditJobs) {
+                newBalance = await recordCreditTransaction(client, {
+                    userId: user.id,
+                    amount: SINGLE_GENERATION_COST,
+                    reason: 'timeline_cancel',
+                    generationId: job.generationId,
+                    sessionId,
+                    note: 'Timeline cancelled before the generation started',
+                });
+            }
+            await client.query('COMMIT');
+
+            const creditsRefunded = sessionRefund + creditJobs.length * SINGLE_GENERATION_COST;
+            console.log(`Cancelled timeline session ${sessionId} for ${maskEmail(user.email)}: ${cancelled.length} queued decades skipped, ${creditsRefunded} credits refunded. New balance: ${newBalance}`);
+            return jsonResponse(200, { sessionId, startedDecades, cancelledDecades: cancelled.length, creditsRefunded, credits: newBalance });
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error(`Error cancelling timeline session ${sessionId} for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to cancel the timeline.", details: getErrorMessage(error) });
+        } finally {
+            client.release();
+        }
+    }
+
     // --- DEBUG ROUTE (/debug-info) ---
     if (requestPath === '/debug-info' && event.httpMethod === 'GET') {
         const adminEmailEnv = ADMIN_EMAIL || '';
@@ -161,50 +798,262 @@ const handler: Handler = async (event: HandlerEvent) => {
         return jsonResponse(200, debugInfo);
     }
 
-    // --- GEMINI API PROXY (:generateContent) ---
-    if (event.httpMethod === 'POST' && requestPath.includes(':generateContent')) {
+    // --- SHARED ALBUM ROUTES (/shares) ---
+    // Publishes a read-only album of the user's generations at `/s/<slug>`.
+    if (requestPath === '/shares' && event.httpMethod === 'POST') {
+        const body = parseJsonBody(event);
+        const generationIds = body?.generationIds;
+        const title = typeof body?.title === 'string' ? body.title.trim() : '';
+        const expiresInDays = body?.expiresInDays ?? null;
+        if (!Array.isArray(generationIds) || generationIds.length === 0 || generationIds.length > MAX_SHARE_ITEMS
+            || !generationIds.every((id: unknown) => typeof id === 'string')) {
+            return jsonResponse(400, { error: `Choose between 1 and ${MAX_SHARE_ITEMS} images to share.` });
+        }
+        if (title.length > MAX_SHARE_TITLE_LENGTH) {
+            return jsonResponse(400, { error: `Album titles are limited to ${MAX_SHARE_TITLE_LENGTH} characters.` });
+        }
+        if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_SHARE_EXPIRY_DAYS)) {
+            return jsonResponse(400, { error: `Links can expire after 1 to ${MAX_SHARE_EXPIRY_DAYS} days, or never.` });
+        }
+
+        try {
+            const uniqueIds = [...new Set<string>(generationIds)];
+            const ownedResult = await pool.query(
+                `SELECT id FROM generations
+                 WHERE id = ANY($1) AND user_id = $2 AND status = 'succeeded' AND deleted_at IS NULL AND storage_key IS NOT NULL`,
+                [uniqueIds, user.id]
+            );
+            if (ownedResult.rows.length !== uniqueIds.length) {
+                return jsonResponse(404, { error: "Some of these images are not in your gallery." });
+            }
+
+            const slug = createShareSlug();
+            const result = await pool.query(
+                `INSERT INTO shared_albums (slug, user_id, title, generation_ids, expires_at)
+                 VALUES ($1, $2, $3, $4, CASE WHEN $5::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $5::int) END)
+                 RETURNING slug, title, generation_ids, created_at, expires_at`,
+                [slug, user.id, title || null, uniqueIds, expiresInDays]
+            );
+            console.log(`Shared album ${slug} created by ${maskEmail(user.email)} (${uniqueIds.length} images).`);
+            return jsonResponse(201, result.rows[0]);
+        } catch (error) {
+            console.error(`Error sharing album for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to share the album.", details: getErrorMessage(error) });
+        }
+    }
+
+    if (requestPath === '/shares' && event.httpMethod === 'GET') {
+        try {
+            const result = await pool.query(
+                `SELECT slug, title, generation_ids, created_at, expires_at, revoked_at FROM shared_albums
+                 WHERE user_id = $1 ORDER BY created_at DESC LIMIT 100`,
+                [user.id]
+            );
+            return jsonResponse(200, result.rows);
+        } catch (error) {
+            console.error(`Error listing shared albums for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to retrieve your shared links.", details: getErrorMessage(error) });
+        }
+    }
+
+    const shareMatch = requestPath.match(/^\/shares\/([^/]+)$/);
+    if (shareMatch && event.httpMethod === 'DELETE') {
+        const slug = decodeURIComponent(shareMatch[1]);
+        try {
+            const result = await pool.query(
+                `UPDATE shared_albums SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+                 WHERE slug = $1 AND user_id = $2 RETURNING slug, revoked_at`,
+                [slug, user.id]
+            );
+            if (result.rows.length === 0) return jsonResponse(404, { error: "Shared link not found." });
+            console.log(`Shared album ${slug} revoked by ${maskEmail(user.email)}.`);
+            return jsonResponse(200, result.rows[0]);
+        } catch (error) {
+            console.error(`Error revoking shared album ${slug}:`, error);
+            return jsonResponse(500, { error: "Failed to revoke the link.", details: getErrorMessage(error) });
+        }
+    }
+
+    // --- GALLERY ROUTES (/generations) ---
+    // Lists the user's stored generations, newest first. The client groups them by timeline session.
+    if (requestPath === '/generations' && event.httpMethod === 'GET') {
+        const params = event.queryStringParameters || {};
+        const limit = Math.min(Math.max(parseInt(params.limit || '200', 10) || 200, 1), 500);
+        try {
+            const result = await pool.query(
+                `SELECT ${GALLERY_COLUMNS} FROM generations
+                 WHERE user_id = $1 AND status = 'succeeded' AND storage_key IS NOT NULL AND deleted_at IS NULL
+                 ORDER BY created_at DESC LIMIT $2`,
+                [user.id, limit]
+            );
+            return jsonResponse(200, result.rows);
+        } catch (error) {
+            console.error(`Error listing generations for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to retrieve your gallery.", details: getErrorMessage(error) });
+        }
+    }
+
+    const generationMatch = requestPath.match(/^\/generations\/([^/]+)(\/image)?$/);
+    if (generationMatch && (event.httpMethod === 'GET' || event.httpMethod === 'DELETE')) {
+        const generationId = decodeURIComponent(generationMatch[1]);
+        const isImageRoute = !!generationMatch[2];
+        if (isImageRoute && event.httpMethod !== 'GET') return jsonResponse(405, { error: "Method not allowed." });
+        try {
+            const result = await pool.query(
+                `SELECT ${GALLERY_COLUMNS}, user_id, storage_key FROM generations
+                 WHERE id = $1 AND status = 'succeeded' AND deleted_at IS NULL`,
+                [generationId]
+            );
+            const generation = result.rows[0];
+            // Other users' generations are reported as missing rather than forbidden.
+            if (!generation || (generation.user_id !== user.id && !isAdmin) || !generation.storage_key) {
+                return jsonResponse(404, { error: "Image not found." });
+            }
+
+            if (event.httpMethod === 'DELETE') {
+                await imageStorage.remove(generation.storage_key);
+                await pool.query('UPDATE generations SET deleted_at = CURRENT_TIMESTAMP, storage_key = NULL WHERE id = $1', [generationId]);
+                console.log(`Deleted generation ${generationId} for ${maskEmail(user.email)}.`);
+                return jsonResponse(200, { id: generationId, deleted: true });
+            }
+
+            if (!isImageRoute) {
+                const { user_id, storage_key, ...details } = generation;
+                return jsonResponse(200, details);
+            }
+
+            const data = await imageStorage.get(generation.storage_key);
+            if (!data) return jsonResponse(404, { error: "Image not found." });
+            return {
+                statusCode: 200,
+                headers: { 'Content-Type': generation.mime_type, 'Cache-Control': 'private, max-age=31536000, immutable' },
+                body: data.toString('base64'),
+                isBase64Encoded: true,
+            };
+        } catch (error) {
+            console.error(`Error handling ${event.httpMethod} for generation ${generationId}:`, error);
+            return jsonResponse(500, { error: "Failed to process the image request.", details: getErrorMessage(error) });
+        }
+    }
+
+    // --- GENERATION JOB STATUS ROUTE (/jobs/:id) ---
+    const jobMatch = requestPath.match(/^\/jobs\/([^/]+)$/);
+    if (jobMatch && event.httpMethod === 'GET') {
+        const jobId = decodeURIComponent(jobMatch[1]);
+        try {
+            let job = await getJob(pool, jobId, user.id);
+            if (!job) return jsonResponse(404, { error: "Job not found." });
+
+            if (job.is_stale) {
+                // Its worker was lost, or never started. Fail the job so the client stops waiting, and give back what it cost.
+                const client = await pool.connect();
+                try {
+                    await failJob(client, job.id, getJobPayment(job), 'timeout', 'The job did not finish in time');
+                } finally {
+                    client.release();
+                }
+                job = await getJob(pool, jobId, user.id);
+                if (!job) return jsonResponse(404, { error: "Job not found." });
+            } else if (job.needs_dispatch) {
+                await dispatchJob(pool, getSiteOrigin(event.headers), job.id);
+            }
+            return jsonResponse(200, toJobResponse(job));
+        } catch (error) {
+            console.error(`Error fetching job ${jobId} for ${maskEmail(user.email)}:`, error);
+            return jsonResponse(500, { error: "Failed to retrieve the job.", details: getErrorMessage(error) });
+        }
+    }
+
+    // --- GENERATION ROUTES (/jobs, /generate) ---
+    // `POST /jobs` queues the generation for generation-worker-background.ts and returns at once with a job to poll,
+    // so a slow model response never holds a request open. `/generate` calls Gemini within the request.
+    if (isGenerationRequest) {
+        // Validate the request before anything is charged. The model comes from server configuration; see lib/gemini.ts.
+        let geminiRequest: GeminiRequest;
+        try {
+            geminiRequest = buildGeminiRequest(isJobRequest ? GENERATE_PATH : requestPath, event.body);
+        } catch (error) {
+            if (error instanceof GeminiRequestError) {
+                console.log(`Rejected generation request from ${maskEmail(user.email)} to ${requestPath}: ${error.message}`);
+                return jsonResponse(error.statusCode, { error: error.message, reason: error.reason });
+            }
+            throw error;
+        }
+
+        // A retry sent with the same `Idempotency-Key` gets the original outcome instead of being charged again.
+        let idempotencyKey: string | undefined;
+        try {
+            idempotencyKey = parseIdempotencyKey(event.headers);
+        } catch (error) {
+            if (error instanceof IdempotencyError) return jsonResponse(error.statusCode, { error: error.message });
+            throw error;
+        }
+        const requestHash = hashRequest(requestPath, event.headers['x-timeline-session'], event.body);
+
         const client = await pool.connect();
+        let charged = false;
         try {
             // Use a transaction for an atomic credit check and deduction.
             await client.query('BEGIN');
-            const userRes = await client.query('SELECT credits FROM users WHERE id = $1 FOR UPDATE', [user.id]);
-            
-            if (userRes.rows.length === 0) {
-                // This is a safeguard. The user should have been created by /user-data.
-                await client.query('ROLLBACK');
-                return jsonResponse(404, { error: "User not found. Please log in again to initialize your account." });
+            if (idempotencyKey) {
+                let earlier: IdempotencyRecord | null;
+                try {
+                    earlier = await reserveIdempotencyKey(client, user.id, idempotencyKey, requestHash);
+                } catch (error) {
+                    if (!(error instanceof IdempotencyError)) throw error;
+                    await client.query('ROLLBACK');
+                    return jsonResponse(error.statusCode, { error: error.message });
+                }
+                if (earlier) {
+                    await client.query('ROLLBACK');
+                    console.log(`Replaying the outcome of a duplicate request from ${maskEmail(user.email)} to ${requestPath}.`);
+                    return await replayGenerationResponse(earlier, user.id);
+                }
             }
 
-            const credits = userRes.rows[0].credits;
-            if (credits <= 0) {
+            let payment: GenerationPayment;
+            try {
+                payment = await chargeGeneration(client, user, geminiRequest, event.headers['x-timeline-session']);
+            } catch (error) {
+                if (!(error instanceof GenerationChargeError)) throw error;
                 await client.query('ROLLBACK');
-                console.log(`Request blocked for user ${maskEmail(user.email)}: Out of credits.`);
-                return jsonResponse(402, { error: "You are out of credits." });
+                return jsonResponse(error.statusCode, { error: error.message });
             }
 
-            await client.query('UPDATE users SET credits = credits - 1 WHERE id = $1', [user.id]);
-            await client.query('COMMIT');
-            console.log(`Credit deducted for ${maskEmail(user.email)}. New balance: ${credits - 1}`);
-
-            // Proxy the request to Gemini
-            const geminiUrl = `${GEMINI_API_BASE_URL}/${requestPath.replace('/v1beta/models/', 'v1beta/models/')}?key=${API_KEY}`;
-            const geminiResponse = await fetch(geminiUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: event.body,
-            });
-
-            const responseBody = await geminiResponse.text();
-            if (!geminiResponse.ok) {
-                console.error(`Gemini API Error (Status: ${geminiResponse.status}):`, responseBody);
-                // Credit is not refunded on API failure to prevent abuse (e.g., intentionally bad prompts).
+            if (isJobRequest) {
+                const jobId = randomUUID();
+                await client.query(
+                    'INSERT INTO generation_jobs (id, user_id, generation_id, request_body, used_session_slot) VALUES ($1, $2, $3, $4, $5)',
+                    [jobId, user.id, payment.generationId, geminiRequest.body, payment.usedSessionSlot]
+                );
+                if (idempotencyKey) await saveIdempotentJob(client, user.id, idempotencyKey, jobId);
+                await client.query('COMMIT');
+                console.log(`Queued job ${jobId} (generation ${payment.generationId}) for ${maskEmail(user.email)}.`);
+                await dispatchJob(pool, getSiteOrigin(event.headers), jobId);
+                const job = await getJob(pool, jobId, user.id);
+                return jsonResponse(202, toJobResponse(job!));
             }
-            return { statusCode: geminiResponse.status, body: responseBody };
+
+            await client.query('COMMIT');
+            charged = true;
+            const result = await runGeneration(client, { ...payment, model: geminiRequest.model, requestBody: geminiRequest.body }, GEMINI_TIMEOUT_MS);
+            // Requests Gemini rejected are passed through with its own error response.
+            const response = typeof result.body === 'string'
+                ? { statusCode: result.statusCode, body: result.body }
+                : jsonResponse(result.statusCode, result.body);
+            if (idempotencyKey) await saveIdempotentResponse(pool, user.id, idempotencyKey, response);
+            return response;
 
         } catch (error) {
             console.error("Error in Gemini proxy transaction:", error);
             await client.query('ROLLBACK'); // Rollback on any error during the transaction
-            return jsonResponse(500, { error: "An internal error occurred while processing your request.", details: getErrorMessage(error) });
+            const response = jsonResponse(500, { error: "An internal error occurred while processing your request.", details: getErrorMessage(error) });
+            // Once charged, the key must not be left in progress: its retries would never be answered.
+            if (idempotencyKey && charged) {
+                await saveIdempotentResponse(pool, user.id, idempotencyKey, response)
+                    .catch(saveError => console.error("Failed to store the outcome of an idempotent request:", saveError));
+            }
+            return response;
         } finally {
             client.release();
         }
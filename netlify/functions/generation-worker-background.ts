@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { pool, dbInit } from '../lib/db';
+import { runGeneration } from '../lib/generations';
+import { claimJob, completeJob, failJob, finishJob, GEMINI_JOB_TIMEOUT_MS } from '../lib/jobs';
+
+// Runs generation jobs queued by `POST /jobs` in api-proxy.ts. As a background function it can run for up to
+// 15 minutes, so a slow model response is waited out instead of timing out the user's request.
+// The function can be invoked by anyone, but it only runs jobs that are queued (and so already paid for),
+// and each job is claimed atomically, so a repeated or forged invocation cannot run a job twice.
+
+const getErrorMessage = (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    return String(error);
+};
+
+const handler: Handler = async (event: HandlerEvent) => {
+    if (event.httpMethod !== 'POST') return { statusCode: 405, body: '' };
+
+    let jobId: unknown;
+    try {
+        jobId = JSON.parse(event.body || '{}').jobId;
+    } catch {
+        jobId = undefined;
+    }
+    if (typeof jobId !== 'string') return { statusCode: 400, body: '' };
+
+    await dbInit;
+    const job = await claimJob(pool, jobId);
+    if (!job) {
+        console.log(`Job ${jobId} is not queued. Nothing to run.`);
+        return { statusCode: 200, body: '' };
+    }
+
+    console.log(`Running job ${jobId} (generation ${job.generationId}).`);
+    const client = await pool.connect();
+    try {
+        // A slow run can outlast JOB_STALE_AFTER_SECONDS, after which a poll fails and compensates the job itself.
+        const result = await runGeneration(client, job, GEMINI_JOB_TIMEOUT_MS, () => completeJob(pool, jobId, 'failed'));
+        if (result.superseded) {
+            console.warn(`Job ${jobId} had already been failed as stale. Its failure is not compensated again.`);
+        } else if (result.succeeded && !result.imageStored) {
+            // Unlike a synchronous request, a job can only deliver its image from storage.
+            await failJob(client, jobId, job, 'storage_error');
+        } else {
+            await finishJob(pool, jobId, result);
+            console.log(`Job ${jobId} ${result.succeeded ? 'succeeded' : `failed with status ${result.statusCode}`}.`);
+        }
+    } catch (error) {
+        console.error(`Error running job ${jobId}:`, error);
+        try {
+            await failJob(client, jobId, job, 'upstream_error', getErrorMessage(error));
+        } catch (failError) {
+            console.error(`Failed to fail job ${jobId}. It will be failed once it is stale:`, failError);
+        }
+    } finally {
+        client.release();
+    }
+    return { statusCode: 200, body: '' };
+};
+
+export { handler };
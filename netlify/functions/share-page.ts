@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { pool, dbInit } from '../lib/db';
+import { getActiveSharedAlbum } from '../lib/shares';
+
+// Serves the app's index.html for `/s/<slug>`, with Open Graph tags describing the shared album,
+// so link previews show the album instead of the site's default image. The page itself is rendered by the SPA.
+
+// --- Helper Functions ---
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+/**
+ * Replaces a meta tag in the page head, or adds it if the page does not have one.
+ * Tags are inserted with function replacers, so `$` patterns in user content (such as `$&`) are not expanded.
+ */
+const setMetaTag = (html: string, attribute: 'property' | 'name', key: string, content: string): string => {
+    const tag = `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />`;
+    const pattern = new RegExp(`<meta ${attribute}="${key.replace(/[.:]/g, '\\$&')}"[^>]*>`);
+    return pattern.test(html) ? html.replace(pattern, () => tag) : html.replace('</head>', () => `${tag}\n</head>`);
+};
+
+// Netlify sets `URL` to the site's primary address.
+const getSiteOrigin = (event: HandlerEvent): string => process.env.URL || `https://${event.headers.host}`;
+
+// The built index.html is fetched from the site once per function instance.
+let indexHtmlPromise: Promise<string> | null = null;
+const loadIndexHtml = (origin: string): Promise<string> => {
+    if (!indexHtmlPromise) {
+        indexHtmlPromise = fetch(`${origin}/index.html`).then(async response => {
+            if (!response.ok) throw new Error(`Failed to fetch index.html (status ${response.status})`);
+            return response.text();
+        });
+        indexHtmlPromise.catch(() => { indexHtmlPromise = null; });
+    }
+    return indexHtmlPromise;
+};
+
+const handler: Handler = async (event: HandlerEvent) => {
+    const origin = getSiteOrigin(event);
+    const slug = decodeURIComponent(event.path.split('/').filter(Boolean).pop() || '');
+
+    let html: string;
+    try {
+        html = await loadIndexHtml(origin);
+    } catch (error) {
+        console.error("Error loading index.html for a shared album:", error);
+        return { statusCode: 502, body: "The page could not be loaded. Please try again." };
+    }
+    // Shared albums are private to whoever has the link, so keep them out of search results.
+    html = setMetaTag(html, 'name', 'robots', 'noindex');
+
+    let album = null;
+    try {
+        await dbInit;
+        album = await getActiveSharedAlbum(pool, slug);
+    } catch (error) {
+        console.error(`Error loading shared album ${slug} for its preview:`, error);
+    }
+    if (!album || album.items.length === 0) {
+        // The SPA shows that the album is unavailable.
+        return { statusCode: 404, headers: { 'Content-Type': 'text/html; charset=utf-8' }, body: html };
+    }
+
+    const title = album.title || 'A RetroSnap album';
+    const description = `${album.items.length} ${album.items.length === 1 ? 'photo' : 'photos'} through the years: ${album.items.map(item => item.style_label).join(', ')}.`;
+    const imageUrl = `${origin}/api-proxy/public/shares/${encodeURIComponent(album.slug)}/images/${encodeURIComponent(album.items[0].id)}`;
+    html = html.replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(`${title} | RetroSnap`)}</title>`);
+    html = setMetaTag(html, 'name', 'description', description);
+    html = setMetaTag(html, 'property', 'og:title', title);
+    html = setMetaTag(html, 'property', 'og:description', description);
+    html = setMetaTag(html, 'property', 'og:url', `${origin}/s/${album.slug}`);
+    html = setMetaTag(html, 'property', 'og:image', imageUrl);
+    html = setMetaTag(html, 'name', 'twitter:card', 'summary_large_image');
+
+    return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'public, max-age=300' },
+        body: html,
+    };
+};
+
+export { handler };
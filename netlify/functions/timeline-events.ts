@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { stream } from "@netlify/functions";
+import type { HandlerEvent, StreamingHandler } from "@netlify/functions";
+import { Readable } from 'stream';
+import { pool, dbInit } from '../lib/db';
+import { authenticateRequest, AuthError, AuthenticatedUser } from '../lib/auth';
+import { checkRateLimit, getClientIp } from '../lib/rateLimit';
+import type { JobFailure, JobStatus } from '../lib/jobs';
+
+// Streams the progress of a timeline session's generations as Server-Sent Events, served at
+// `/api-proxy/timeline-sessions/<id>/events` (see netlify.toml). Each connection starts with the current state of
+// every decade, then sends changes. Streams end after a few seconds, within the function time limit,
+// and clients reconnect; the state sent at the start of each stream covers anything that happened in between.
+
+// --- Configuration ---
+const { CONTEXT } = process.env;
+// Netlify ends function invocations after 10 seconds by default.
+const STREAM_SECONDS = parseInt(process.env.TIMELINE_EVENTS_STREAM_SECONDS || '8', 10);
+const POLL_INTERVAL_MS = 1000;
+
+type DecadeStatus = 'queued' | 'generating' | 'done' | 'failed';
+
+const DECADE_STATUSES: Record<JobStatus, DecadeStatus> = {
+    queued: 'queued',
+    running: 'generating',
+    succeeded: 'done',
+    failed: 'failed',
+};
+
+interface DecadeEvent {
+    jobId: string;
+    styleId: string;
+    label: string;
+    status: DecadeStatus;
+    generationId: string;
+    failure: JobFailure | null; // Set for failed decades, with the reason and whether the slot was returned.
+}
+
+interface DecadeRow {
+    id: string;
+    status: JobStatus;
+    failure: JobFailure | null;
+    generation_id: string;
+    style_id: string;
+    style_label: string;
+}
+
+// --- Helper Functions ---
+const jsonResponse = (statusCode: number, body: object) => ({
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+});
+
+const rateLimitedResponse = (retryAfterSeconds: number) => {
+    const response = jsonResponse(429, { error: `Too many requests. Please try again in ${retryAfterSeconds} seconds.` });
+    return { ...response, headers: { ...response.headers, 'Retry-After': String(retryAfterSeconds) } };
+};
+
+/**
+ * The state of the latest job for each style in the session (a regenerated decade replaces its earlier job).
+ */
+const loadDecadeEvents = async (sessionId: string, userId: string): Promise<DecadeEvent[]> => {
+    const result = await pool.query<DecadeRow>(
+        `SELECT DISTINCT ON (g.style_id) j.id, j.status, j.failure, g.id AS generation_id, g.style_id, g.style_label
+         FROM generation_jobs j JOIN generations g ON g.id = j.generation_id
+         WHERE g.session_id = $1 AND j.user_id = $2
+         ORDER BY g.style_id, j.created_at DESC`,
+        [sessionId, userId]
+    );
+    return result.rows.map(row => ({
+        jobId: row.id,
+        styleId: row.style_id,
+        label: row.style_label,
+        status: DECADE_STATUSES[row.status],
+        generationId: row.generation_id,
+        failure: row.failure,
+    }));
+};
+
+const streamTimelineEvents: StreamingHandler = async (event: HandlerEvent) => {
+    if (event.httpMethod !== 'GET') return jsonResponse(405, { error: "Method not allowed." });
+    const sessionId = decodeURIComponent(event.path.split('/').filter(Boolean).pop() || '');
+
+    // --- Rate Limiting (per IP) ---
+    // Counted before the token is verified, so requests with missing or forged tokens are limited too.
+    try {
+        await dbInit;
+        const ipLimit = await checkRateLimit(pool, 'poll', { ip: getClientIp(event.headers) });
+        if (!ipLimit.allowed) return rateLimitedResponse(ipLimit.retryAfterSeconds);
+    } catch (error) {
+        console.error(`Error opening the event stream for timeline session ${sessionId}:`, error);
+        return jsonResponse(500, { error: "Failed to open the event stream." });
+    }
+
+    // --- Authentication ---
+    // EventSource cannot send headers, so clients read this stream with fetch and send their token as usual.
+    let user: AuthenticatedUser;
+    const authHeader = event.headers['authorization'];
+    if (authHeader === 'Bearer dev-token' && CONTEXT === 'dev') {
+        user = { email: 'dev@example.com', id: 'auth0|dev-user-12345' };
+    } else {
+        try {
+            user = await authenticateRequest(authHeader);
+        } catch (error) {
+            if (error instanceof AuthError) return jsonResponse(error.statusCode, { error: error.message });
+            console.error("Error validating access token:", error);
+            return jsonResponse(500, { error: "An internal error occurred during authentication." });
+        }
+    }
+
+    try {
+        const limit = await checkRateLimit(pool, 'poll', { userId: user.id });
+        if (!limit.allowed) return rateLimitedResponse(limit.retryAfterSeconds);
+        const sessionResult = await pool.query('SELECT 1 FROM timeline_sessions WHERE id = $1 AND user_id = $2', [sessionId, user.id]);
+        if (sessionResult.rows.length === 0) return jsonResponse(404, { error: "Timeline session not found." });
+    } catch (error) {
+        console.error(`Error opening the event stream for timeline session ${sessionId}:`, error);
+        return jsonResponse(500, { error: "Failed to open the event stream." });
+    }
+
+    // Sends each decade's state whenever it changes. If the client disconnects, the stream is destroyed and the loop stops.
+    async function* decadeEvents() {
+        // The last status sent for each style, so only changes are sent after the initial state.
+        const sent = new Map<string, string>();
+        const deadline = Date.now() + STREAM_SECONDS * 1000;
+        try {
+            while (Date.now() < deadline) {
+                for (const decade of await loadDecadeEvents(sessionId, user.id)) {
+                    const signature = `${decade.jobId}:${decade.status}`;
+                    if (sent.get(decade.styleId) === signature) continue;
+                    sent.set(decade.styleId, signature);
+                    yield `event: decade\ndata: ${JSON.stringify(decade)}\n\n`;
+                }
+                await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+            }
+        } catch (error) {
+            console.error(`Error streaming events for timeline session ${sessionId}:`, error);
+        }
+    }
+
+    return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+        body: Readable.from(decadeEvents()),
+    };
+};
+
+export const handler = stream(streamTimelineEvents);
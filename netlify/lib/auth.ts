@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createPublicKey, verify, KeyObject } from 'crypto';
+
+// --- Configuration ---
+// The issuer and JWKS location default to the Auth0 tenant, but can be pointed at a local stand-in (see scripts/fake-jwks.ts).
+const { AUTH0_DOMAIN } = process.env;
+const AUTH0_AUDIENCE = process.env.AUTH0_AUDIENCE || 'https://api.retrosnap.com';
+const AUTH0_ISSUER = process.env.AUTH0_ISSUER || `https://${AUTH0_DOMAIN}/`;
+const AUTH0_JWKS_URL = process.env.AUTH0_JWKS_URL || `${AUTH0_ISSUER}.well-known/jwks.json`;
+const AUTH0_USERINFO_URL = process.env.AUTH0_USERINFO_URL || `${AUTH0_ISSUER}userinfo`;
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+// When a token is signed with an unknown key (e.g. after a rotation), refetch the JWKS at most this often.
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+// Tolerated clock difference when checking `exp` and `nbf`.
+const CLOCK_SKEW_SECONDS = 60;
+// How long the email looked up for a user is reused before asking Auth0 again.
+const USER_CLAIMS_TTL_MS = 5 * 60 * 1000;
+// A warm instance keeps the emails of at most this many users; beyond it, expired and then the oldest entries are dropped.
+const USER_CLAIMS_CACHE_SIZE = 1000;
+// Auth0 only puts custom claims in access tokens under a namespace. If an Action adds it, /userinfo is skipped entirely.
+const EMAIL_CLAIM = `${AUTH0_AUDIENCE}/email`;
+
+export interface AuthenticatedUser {
+    email: string;
+    id: string; // The Auth0 `sub` identifier
+}
+
+export class AuthError extends Error {
+    constructor(public statusCode: number, message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+// --- JWKS Cache ---
+let signingKeys = new Map<string, KeyObject>();
+let signingKeysFetchedAt = 0;
+let signingKeysPromise: Promise<void> | null = null;
+
+const fetchSigningKeys = async (): Promise<void> => {
+    const response = await fetch(AUTH0_JWKS_URL);
+    if (!response.ok) throw new Error(`Failed to fetch JWKS from ${AUTH0_JWKS_URL} (status ${response.status})`);
+    const { keys } = await response.json();
+    const nextKeys = new Map<string, KeyObject>();
+    for (const jwk of keys || []) {
+        if (jwk.kty !== 'RSA' || !jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+        nextKeys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+    signingKeys = nextKeys;
+    signingKeysFetchedAt = Date.now();
+};
+
+// Concurrent requests on a warm instance share a single JWKS fetch.
+const refreshSigningKeys = (): Promise<void> => {
+    if (!signingKeysPromise) {
+        signingKeysPromise = fetchSigningKeys().finally(() => { signingKeysPromise = null; });
+    }
+    return signingKeysPromise;
+};
+
+const getSigningKey = async (kid: string): Promise<KeyObject | undefined> => {
+    const age = Date.now() - signingKeysFetchedAt;
+    if (age > JWKS_CACHE_TTL_MS || (!signingKeys.has(kid) && age > JWKS_REFRESH_COOLDOWN_MS)) {
+        await refreshSigningKeys();
+    }
+    return signingKeys.get(kid);
+};
+
+// --- Token Verification ---
+const decodeSegment = (segment: string): any => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Verifies an RS256 access token locally: signature (against the cached JWKS), issuer, audience and expiry.
+ * @returns The token's claims.
+ * @throws AuthError (401) if the token is not valid.
+ */
+export async function verifyAccessToken(token: string): Promise<Record<string, any>> {
+    const segments = token.split('.');
+    if (segments.length !== 3) throw new AuthError(401, "Unauthorized: Malformed token.");
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+    let header: any;
+    let payload: any;
+    try {
+        header = decodeSegment(encodedHeader);
+        payload = decodeSegment(encodedPayload);
+    } catch {
+        throw new AuthError(401, "Unauthorized: Malformed token.");
+    }
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+        throw new AuthError(401, "Unauthorized: Unsupported token algorithm.");
+    }
+    const key = await getSigningKey(header.kid);
+    if (!key) throw new AuthError(401, "Unauthorized: Token signed with an unknown key.");
+
+    const signatureValid = verify(
+        'RSA-SHA256',
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        key,
+        Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) throw new AuthError(401, "Unauthorized: Invalid token signature.");
+
+    const now = Math.floor(Date.now() / 1000);
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (payload.iss !== AUTH0_ISSUER) throw new AuthError(401, "Unauthorized: Invalid token issuer.");
+    if (!audiences.includes(AUTH0_AUDIENCE)) throw new AuthError(401, "Unauthorized: Invalid token audience.");
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError(401, "Unauthorized: Token has expired.");
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) throw new AuthError(401, "Unauthorized: Token is not yet valid.");
+    if (typeof payload.sub !== 'string') throw new AuthError(401, "Unauthorized: Token has no subject.");
+
+    return payload;
+}
+
+// --- User Claims Cache ---
+// Entries are kept in the order they were cached, oldest first.
+const emailCache = new Map<string, { email: string; expiresAt: number }>();
+
+const cacheEmail = (sub: string, email: string) => {
+    emailCache.delete(sub);
+    if (emailCache.size >= USER_CLAIMS_CACHE_SIZE) {
+        const now = Date.now();
+        for (const [cachedSub, entry] of emailCache) {
+            if (entry.expiresAt <= now) emailCache.delete(cachedSub);
+        }
+        for (const cachedSub of emailCache.keys()) {
+            if (emailCache.size < USER_CLAIMS_CACHE_SIZE) break;
+            emailCache.delete(cachedSub);
+        }
+    }
+    emailCache.set(sub, { email, expiresAt: Date.now() + USER_CLAIMS_TTL_MS });
+};
+
+/**
+ * Looks up the user's email, which Auth0 access tokens do not carry by default.
+ * The result is cached per user, so a burst of requests (e.g. a timeline's decades) costs one /userinfo call.
+ */
+const getUserEmail = async (sub: string, token: string): Promise<string> => {
+    const cached = emailCache.get(sub);
+    if (cached && cached.expiresAt > Date.now()) return cached.email;
+    emailCache.delete(sub);
+
+    const response = await fetch(AUTH0_USERINFO_URL, { headers: { Authorization: `Bearer ${token}` } });
+    if (!response.ok) throw new AuthError(401, "Unauthorized: Invalid token.");
+    const userInfo = await response.json();
+    if (!userInfo || typeof userInfo.email !== 'string' || userInfo.sub !== sub) {
+        throw new AuthError(400, "User email or ID not found in token.");
+    }
+    cacheEmail(sub, userInfo.email);
+    return userInfo.email;
+};
+
+/**
+ * Authenticates a request from its `Authorization: Bearer <token>` header.
+ * @throws AuthError with the HTTP status to respond with.
+ */
+export async function authenticateRequest(authHeader: string | undefined): Promise<AuthenticatedUser> {
+    if (!authHeader) throw new AuthError(401, "Unauthorized: Missing Authorization header.");
+    const match = authHeader.match(/^Bearer\s+(.+)$/i);
+    if (!match) throw new AuthError(401, "Unauthorized: Malformed Authorization header.");
+    const token = match[1];
+
+    const claims = await verifyAccessToken(token);
+    const email = typeof claims[EMAIL_CLAIM] === 'string'
+        ? claims[EMAIL_CLAIM]
+        : typeof claims.email === 'string' ? claims.email : await getUserEmail(claims.sub, token);
+    return { email, id: claims.sub };
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PoolClient } from 'pg';
+
+// --- Credit Ledger ---
+export type CreditReason = 'opening_balance' | 'signup_bonus' | 'generation' | 'timeline' | 'refund' | 'timeline_cancel' | 'purchase' | 'admin_grant' | 'admin_revoke' | 'admin_set';
+
+export interface CreditChange {
+    userId: string;
+    amount: number; // Positive for grants, negative for charges.
+    reason: CreditReason;
+    generationId?: string;
+    sessionId?: string;
+    purchaseId?: string;
+    adminId?: string;
+    note?: string;
+}
+
+/**
+ * Applies a credit change and appends it to the ledger.
+ * Must be called on a client inside an open transaction, so that the balance update
+ * and its ledger entry are committed (or rolled back) together.
+ * @returns The user's balance after the change.
+ */
+export const recordCreditTransaction = async (client: PoolClient, change: CreditChange): Promise<number> => {
+    const updateResult = await client.query<{ credits: number }>(
+        'UPDATE users SET credits = credits + $2 WHERE id = $1 RETURNING credits',
+        [change.userId, change.amount]
+    );
+    if (updateResult.rowCount === 0) {
+        throw new Error(`Cannot record credit transaction: user ${change.userId} does not exist.`);
+    }
+    const balanceAfter = updateResult.rows[0].credits;
+    await client.query(
+        `INSERT INTO credit_transactions (user_id, amount, balance_after, reason, generation_id, session_id, purchase_id, admin_id, note)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [change.userId, change.amount, balanceAfter, change.reason, change.generationId ?? null, change.sessionId ?? null, change.purchaseId ?? null, change.adminId ?? null, change.note ?? null]
+    );
+    return balanceAfter;
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Pool } from 'pg';
+import { runMigrations } from './migrations';
+
+// Prioritize the Netlify-specific variable, but fall back to the generic one for wider compatibility.
+export const DATABASE_URL = process.env.NETLIFY_DATABASE_URL || process.env.DATABASE_URL;
+
+// --- Database Pool Setup ---
+export let pool: Pool;
+// Use a secure connection to Neon by default. In local dev, you might need to adjust this.
+if (DATABASE_URL) {
+    pool = new Pool({
+        connectionString: DATABASE_URL,
+        // The `sslmode=require` parameter in the DATABASE_URL provided by Netlify's Neon
+        // integration is sufficient for node-postgres to establish a secure connection.
+        // Explicitly setting `ssl: { rejectUnauthorized: false }` is not best practice.
+    });
+}
+
+// --- Database Initialization ---
+// This promise ensures all schema migrations have been applied before any requests are handled.
+export const dbInit = pool ? (async () => {
+    try {
+        await runMigrations(pool);
+        console.log("Database schema is up to date.");
+    } catch (err) {
+        console.error("FATAL: Failed to migrate the database:", err);
+        // This will cause subsequent requests to fail, which is intended if the DB is not ready.
+        throw err;
+    }
+})() : Promise.reject("Neither NETLIFY_DATABASE_URL nor DATABASE_URL environment variable is set.");
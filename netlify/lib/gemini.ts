@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { resolveStyle, StyleDefinition, StyleError } from './styles';
+
+// --- Configuration ---
+const GEMINI_API_BASE_URL = "https://generativelanguage.googleapis.com";
+// The model used for generations. Clients do not choose it; they call `/generate`.
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash-image-preview';
+// Additional models that may still be called by name through `/v1beta/models/<model>:<operation>`,
+// e.g. while clients from before a model switch are still in use.
+const GEMINI_ALLOWED_MODELS = new Set([
+    GEMINI_MODEL,
+    ...(process.env.GEMINI_ALLOWED_MODELS || '').split(',').map(model => model.trim()).filter(Boolean),
+]);
+const ALLOWED_OPERATIONS = new Set(['generateContent']);
+
+// A resized photo is well under this once base64-encoded; anything larger is not a request the app sends.
+const MAX_GENERATION_BODY_BYTES = parseInt(process.env.MAX_GENERATION_BODY_BYTES || String(8 * 1024 * 1024), 10);
+const REQUEST_FIELDS = ['styleId', 'customText', 'styleVersion', 'region', 'image'];
+const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export const GENERATE_PATH = '/generate';
+const MODEL_PATH_PATTERN = /^\/v1beta\/models\/([^/:]+):([A-Za-z]+)$/;
+
+export class GeminiRequestError extends Error {
+    // `reason` marks problems with the photo itself, so clients can tell them from other invalid requests.
+    constructor(public statusCode: number, message: string, public reason?: 'invalid_image') {
+        super(message);
+        this.name = 'GeminiRequestError';
+    }
+}
+
+export interface GeminiRequest {
+    model: string;
+    style: StyleDefinition;
+    url: string; // Without the API key.
+    body: string;
+}
+
+/**
+ * The Gemini endpoint that generates content with a model, without the API key.
+ */
+export const getGeminiUrl = (model: string): string => `${GEMINI_API_BASE_URL}/v1beta/models/${model}:generateContent`;
+
+/**
+ * Whether a proxy path is a generation route. Paths that are not are left to the rest of the router (and end in a 404).
+ */
+export const isGenerationPath = (requestPath: string): boolean =>
+    requestPath === GENERATE_PATH || requestPath.startsWith('/v1beta/models/');
+
+const resolveModel = (requestPath: string): string => {
+    if (requestPath === GENERATE_PATH) return GEMINI_MODEL;
+    const match = requestPath.match(MODEL_PATH_PATTERN);
+    if (!match) throw new GeminiRequestError(404, `Not Found. The path '${requestPath}' is not handled.`);
+    const [, model, operation] = match;
+    if (!GEMINI_ALLOWED_MODELS.has(model)) throw new GeminiRequestError(403, `The model '${model}' is not available.`);
+    if (!ALLOWED_OPERATIONS.has(operation)) throw new GeminiRequestError(403, `The operation '${operation}' is not available.`);
+    return model;
+};
+
+const sanitizeImage = (image: any): object => {
+    if (!image || typeof image !== 'object') throw new GeminiRequestError(400, "An image is required.", 'invalid_image');
+    const { mimeType, data } = image;
+    if (!ALLOWED_IMAGE_TYPES.includes(mimeType)) throw new GeminiRequestError(400, `Unsupported image type '${mimeType}'.`, 'invalid_image');
+    if (typeof data !== 'string' || !BASE64_PATTERN.test(data)) throw new GeminiRequestError(400, "Image data must be base64-encoded.", 'invalid_image');
+    return { inlineData: { mimeType, data } };
+};
+
+/**
+ * Validates a generation request and builds the body sent to Gemini.
+ * The client sends `{ styleId, customText?, styleVersion?, region?, image }`; the prompt is assembled from the style registry (see lib/styles.ts),
+ * so the proxy cannot be used to spend the API key on arbitrary prompts or request options.
+ * @throws GeminiRequestError with the HTTP status to respond with.
+ */
+export const buildGeminiRequest = (requestPath: string, rawBody: string | null): GeminiRequest => {
+    const model = resolveModel(requestPath);
+
+    if (!rawBody) throw new GeminiRequestError(400, "Request body is required.");
+    if (Buffer.byteLength(rawBody, 'utf8') > MAX_GENERATION_BODY_BYTES) {
+        throw new GeminiRequestError(413, "The image is too large. Please use a smaller photo.", 'invalid_image');
+    }
+
+    let payload: any;
+    try {
+        payload = JSON.parse(rawBody);
+    } catch {
+        throw new GeminiRequestError(400, "Request body must be valid JSON.");
+    }
+    const unknownFields = Object.keys(payload || {}).filter(key => !REQUEST_FIELDS.includes(key));
+    if (unknownFields.length > 0) throw new GeminiRequestError(400, `Unsupported request fields: ${unknownFields.join(', ')}.`);
+
+    let style: StyleDefinition;
+    try {
+        style = resolveStyle(payload?.styleId, payload?.customText, payload?.styleVersion, payload?.region);
+    } catch (error) {
+        if (error instanceof StyleError) throw new GeminiRequestError(400, error.message);
+        throw error;
+    }
+    const imagePart = sanitizeImage(payload?.image);
+
+    return {
+        model,
+        style,
+        url: getGeminiUrl(model),
+        body: JSON.stringify({ contents: [{ role: 'user', parts: [imagePart, { text: style.prompt }] }] }),
+    };
+};
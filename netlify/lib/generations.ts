@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PoolClient } from 'pg';
+import { pool } from './db';
+import { recordCreditTransaction } from './credits';
+import { getGeminiUrl } from './gemini';
+import { SINGLE_GENERATION_COST } from './pricing';
+import { createImageStorage } from './storage';
+
+// Runs paid generations against Gemini and settles them. Used for synchronous `/generate` requests in api-proxy.ts
+// and for queued jobs in generation-worker-background.ts.
+
+// --- Configuration ---
+const { API_KEY } = process.env;
+// Maximum number of automatic refunds per user in a rolling 24 hours. Failures beyond the cap are still charged,
+// so a user cannot generate unlimited free attempts with prompts designed to be blocked.
+const REFUND_CAP_PER_DAY = parseInt(process.env.REFUND_CAP_PER_DAY || '10', 10);
+
+const getErrorMessage = (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    return String(error);
+};
+
+// --- Generation Refunds ---
+export type RefundableFailure = 'upstream_error' | 'timeout' | 'safety_blocked' | 'no_image' | 'storage_error';
+
+// Gemini finish reasons that mean the output was withheld by a safety or policy filter.
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+interface GeminiOutcome {
+    failure?: RefundableFailure;
+    detail?: string;
+}
+
+/**
+ * Inspects a Gemini response and decides whether the user received what they paid for.
+ * Client errors (4xx other than 429) are not refundable, since they are caused by the request itself.
+ */
+const classifyGeminiResponse = (status: number, responseBody: string): GeminiOutcome => {
+    if (status >= 500 || status === 429) return { failure: 'upstream_error', detail: `Gemini returned status ${status}` };
+    if (status >= 400) return {};
+
+    let response: any;
+    try {
+        response = JSON.parse(responseBody);
+    } catch {
+        return { failure: 'upstream_error', detail: 'Gemini returned a malformed response' };
+    }
+    const candidate = response.candidates?.[0];
+    if (candidate?.content?.parts?.some((part: any) => part.inlineData)) return {};
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) return { failure: 'safety_blocked', detail: `Prompt blocked: ${blockReason}` };
+    if (SAFETY_FINISH_REASONS.includes(candidate?.finishReason)) return { failure: 'safety_blocked', detail: `Output blocked: ${candidate.finishReason}` };
+    const text = candidate?.content?.parts?.find((part: any) => part.text)?.text;
+    return { failure: 'no_image', detail: text ? `Model replied with text: ${text.slice(0, 200)}` : 'No image in response' };
+};
+
+export const FAILURE_MESSAGES: Record<RefundableFailure, { statusCode: number; error: string }> = {
+    upstream_error: { statusCode: 502, error: "The AI model is temporarily unavailable." },
+    timeout: { statusCode: 504, error: "The AI model took too long to respond." },
+    safety_blocked: { statusCode: 422, error: "The AI model's safety filters blocked this image." },
+    no_image: { statusCode: 422, error: "The AI model did not return an image." },
+    storage_error: { statusCode: 500, error: "The image could not be saved." },
+};
+
+/**
+ * Refunds the credit charged for a failed generation, unless the user has reached the daily refund cap.
+ * @returns Whether the credit was refunded.
+ */
+const refundGeneration = async (client: PoolClient, userId: string, generationId: string, failure: RefundableFailure, detail?: string, sessionId?: string): Promise<boolean> => {
+    await client.query('BEGIN');
+    try {
+        // Lock the user row so concurrent failures cannot both slip under the cap.
+        await client.query('SELECT 1 FROM users WHERE id = $1 FOR UPDATE', [userId]);
+        const countResult = await client.query<{ count: number }>(
+            `SELECT COUNT(*)::INTEGER AS count FROM credit_transactions
+             WHERE user_id = $1 AND reason = 'refund' AND created_at > NOW() - INTERVAL '24 hours'`,
+            [userId]
+        );
+        if (countResult.rows[0].count >= REFUND_CAP_PER_DAY) {
+            await client.query('ROLLBACK');
+            console.warn(`Refund cap reached for user ${userId}. Generation ${generationId} (${failure}) is not refunded.`);
+            return false;
+        }
+        const newBalance = await recordCreditTransaction(client, {
+            userId,
+            amount: SINGLE_GENERATION_COST,
+            reason: 'refund',
+            generationId,
+            sessionId,
+            note: detail ? `${failure}: ${detail}` : failure,
+        });
+        await client.query('COMMIT');
+        console.log(`Refunded generation ${generationId} for user ${userId} (${failure}). New balance: ${newBalance}`);
+        return true;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    }
+};
+
+/**
+ * Gives a failed decade's slot back to its timeline session, so the decade can be retried without a charge.
+ * Each session can get back at most as many slots as it was opened with, which bounds the number of free retries.
+ * @returns Whether the slot was returned.
+ */
+const returnSessionSlot = async (client: PoolClient, sessionId: string, generationId: string, failure: RefundableFailure): Promise<boolean> => {
+    const result = await client.query(
+        `UPDATE timeline_sessions SET generations_used = generations_used - 1, slots_returned = slots_returned + 1
+         WHERE id = $1 AND generations_used > 0 AND slots_returned < generation_allowance`,
+        [sessionId]
+    );
+    const returned = result.rowCount > 0;
+    console.log(`Generation ${generationId} in session ${sessionId} failed (${failure}). Slot ${returned ? 'returned' : 'not returned: retry limit reached'}.`);
+    return returned;
+};
+
+/**
+ * How a generation was paid for.
+ */
+export interface GenerationPayment {
+    userId: string;
+    generationId: string;
+    sessionId?: string;
+    usedSessionSlot: boolean; // Paid with a slot of the timeline session rather than a credit.
+}
+
+/**
+ * Gives back what a failed generation was paid with: its session slot, or its credit (up to the daily refund cap).
+ * @returns Whether it was given back, and a sentence telling the user.
+ */
+export const compensateFailedGeneration = async (client: PoolClient, payment: GenerationPayment, failure: RefundableFailure, detail?: string): Promise<{ refunded: boolean; message: string }> => {
+    if (payment.usedSessionSlot) {
+        const refunded = await returnSessionSlot(client, payment.sessionId!, payment.generationId, failure);
+        return { refunded, message: refunded ? 'You can retry this decade at no cost.' : 'This timeline has no free retries left.' };
+    }
+    const refunded = await refundGeneration(client, payment.userId, payment.generationId, failure, detail, payment.sessionId);
+    return { refunded, message: refunded ? 'Your credit has been refunded.' : 'You have reached the daily refund limit, so this credit was not refunded.' };
+};
+
+// --- Generation Records ---
+// Image bytes go to the configured storage backend (Postgres by default); see lib/storage.ts.
+export const imageStorage = createImageStorage(pool);
+
+export const markGenerationFailed = async (generationId: string, reason: string): Promise<void> => {
+    await pool.query(
+        `UPDATE generations SET status = 'failed', failure_reason = $2, completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [generationId, reason]
+    );
+};
+
+/**
+ * Stores the image from a successful Gemini response and marks the generation as succeeded.
+ * Problems are logged rather than thrown: a synchronous request still returns the image to the user, who has paid for it.
+ * @returns Whether the image was stored.
+ */
+const saveGeneratedImage = async (generationId: string, geminiBody: any): Promise<boolean> => {
+    const inlineData = geminiBody.candidates?.[0]?.content?.parts?.find((part: any) => part.inlineData)?.inlineData;
+    try {
+        let storageKey: string | null = generationId;
+        try {
+            await imageStorage.put(storageKey, Buffer.from(inlineData.data, 'base64'));
+        } catch (error) {
+            console.error(`Failed to store the image of generation ${generationId} in ${imageStorage.name} storage:`, error);
+            storageKey = null;
+        }
+        await pool.query(
+            `UPDATE generations SET status = 'succeeded', mime_type = $2, storage_key = $3, completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+            [generationId, inlineData.mimeType, storageKey]
+        );
+        return storageKey !== null;
+    } catch (error) {
+        console.error(`Failed to record the result of generation ${generationId}:`, error);
+        return false;
+    }
+};
+
+// --- Generation Runs ---
+export interface GenerationRun extends GenerationPayment {
+    model: string;
+    requestBody: string; // The body for Gemini, as built by buildGeminiRequest.
+}
+
+export interface GenerationResult {
+    statusCode: number;
+    // The response for the client: the Gemini response with the generation's ID, an error with refund details,
+    // or, for requests Gemini rejected, Gemini's own error response as text.
+    body: object | string;
+    succeeded: boolean;
+    imageStored?: boolean;
+    superseded?: boolean; // The failure had already been settled elsewhere (see claimFailure), so nothing was recorded.
+}
+
+/**
+ * Calls Gemini for a generation that has already been paid for, and settles it: the image of a success is stored,
+ * a refundable failure is compensated (see compensateFailedGeneration), and a rejected request is recorded as failed.
+ * @param client A pool client, used for the refund transaction. It must not be in a transaction.
+ * @param timeoutMs How long to wait for Gemini before giving up and refunding.
+ * @param claimFailure For a job: moves it to `failed` before a failure is recorded. When it returns false, the job was
+ * already failed elsewhere (as stale) and compensated there, so the failure is neither recorded nor compensated again.
+ */
+export const runGeneration = async (client: PoolClient, run: GenerationRun, timeoutMs: number, claimFailure?: () => Promise<boolean>): Promise<GenerationResult> => {
+    const geminiUrl = `${getGeminiUrl(run.model)}?key=${API_KEY}`;
+    let outcome: GeminiOutcome;
+    let geminiResponse: Response | undefined;
+    let responseBody = '';
+    try {
+        geminiResponse = await fetch(geminiUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: run.requestBody,
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        responseBody = await geminiResponse.text();
+        outcome = classifyGeminiResponse(geminiResponse.status, responseBody);
+    } catch (error) {
+        const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+        outcome = { failure: isTimeout ? 'timeout' : 'upstream_error', detail: getErrorMessage(error) };
+    }
+
+    if (geminiResponse && !geminiResponse.ok) {
+        console.error(`Gemini API Error (Status: ${geminiResponse.status}):`, responseBody);
+    }
+
+    if (outcome.failure) {
+        // Client errors (e.g. intentionally bad prompts) are never refunded; see classifyGeminiResponse.
+        console.warn(`Generation ${run.generationId} for user ${run.userId} failed: ${outcome.failure} (${outcome.detail})`);
+        const { statusCode, error } = FAILURE_MESSAGES[outcome.failure];
+        if (claimFailure && !(await claimFailure())) {
+            return { statusCode, body: { error, reason: outcome.failure, details: outcome.detail }, succeeded: false, superseded: true };
+        }
+        await markGenerationFailed(run.generationId, outcome.failure);
+        const { refunded, message } = await compensateFailedGeneration(client, run, outcome.failure, outcome.detail);
+        return {
+            statusCode,
+            body: { error: `${error} ${message}`, reason: outcome.failure, refunded, details: outcome.detail },
+            succeeded: false,
+        };
+    }
+
+    if (!geminiResponse!.ok) {
+        if (claimFailure && !(await claimFailure())) {
+            return { statusCode: geminiResponse!.status, body: responseBody, succeeded: false, superseded: true };
+        }
+        await markGenerationFailed(run.generationId, `rejected_${geminiResponse!.status}`);
+        return { statusCode: geminiResponse!.status, body: responseBody, succeeded: false };
+    }
+
+    // Keep the result, and tell the client the stable ID it is stored under.
+    const geminiBody = JSON.parse(responseBody);
+    const imageStored = await saveGeneratedImage(run.generationId, geminiBody);
+    return { statusCode: geminiResponse!.status, body: { ...geminiBody, generationId: run.generationId }, succeeded: true, imageStored };
+};
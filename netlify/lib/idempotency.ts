@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHash } from 'crypto';
+import type { Pool, PoolClient } from 'pg';
+
+// --- Configuration ---
+// Clients retry within minutes; keys are kept for a day, after which they can be reused.
+const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+// Printable ASCII without spaces, e.g. a UUID.
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+// Expired keys are pruned by an occasional sweep rather than on every request.
+const SWEEP_PROBABILITY = 0.01;
+
+export class IdempotencyError extends Error {
+    constructor(public statusCode: number, message: string) {
+        super(message);
+        this.name = 'IdempotencyError';
+    }
+}
+
+export interface StoredResponse {
+    statusCode: number;
+    headers?: Record<string, string>;
+    body: string;
+}
+
+export interface IdempotencyRecord {
+    request_hash: string;
+    job_id: string | null;
+    response: StoredResponse | null; // Null while the original request is still running.
+}
+
+/**
+ * Reads the `Idempotency-Key` header.
+ * @returns The key, or undefined if the request was sent without one.
+ * @throws IdempotencyError if the key is malformed.
+ */
+export const parseIdempotencyKey = (headers: Record<string, string | undefined>): string | undefined => {
+    const key = headers['idempotency-key'];
+    if (key === undefined) return undefined;
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+        throw new IdempotencyError(400, "Idempotency-Key must be 1 to 255 printable characters without spaces.");
+    }
+    return key;
+};
+
+/**
+ * A fingerprint of a request, so a key reused for a different request is detected.
+ */
+export const hashRequest = (...parts: (string | null | undefined)[]): string => {
+    const hash = createHash('sha256');
+    parts.forEach(part => hash.update(`${part ?? ''}\n`));
+    return hash.digest('hex');
+};
+
+const sweepExpiredKeys = async (client: PoolClient): Promise<void> => {
+    if (Math.random() >= SWEEP_PROBABILITY) return;
+    await client.query('DELETE FROM idempotency_keys WHERE created_at <= NOW() - make_interval(hours => $1)', [IDEMPOTENCY_KEY_TTL_HOURS]);
+};
+
+/**
+ * Reserves a key for a new request. Must be called inside the transaction that charges the request, before the charge:
+ * a concurrent request with the same key then waits for that transaction, and finds the key taken once it commits.
+ * If the transaction rolls back, nothing was charged, and the key is free again.
+ * @returns Null if the key was reserved for this request, or the record of the earlier request that holds it.
+ * @throws IdempotencyError if the key is held by a different request.
+ */
+export const reserveIdempotencyKey = async (client: PoolClient, userId: string, key: string, requestHash: string): Promise<IdempotencyRecord | null> => {
+    await sweepExpiredKeys(client);
+    await client.query(
+        'DELETE FROM idempotency_keys WHERE user_id = $1 AND key = $2 AND created_at <= NOW() - make_interval(hours => $3)',
+        [userId, key, IDEMPOTENCY_KEY_TTL_HOURS]
+    );
+    const inserted = await client.query(
+        'INSERT INTO idempotency_keys (user_id, key, request_hash) VALUES ($1, $2, $3) ON CONFLICT (user_id, key) DO NOTHING',
+        [userId, key, requestHash]
+    );
+    if (inserted.rowCount > 0) return null;
+
+    const result = await client.query<IdempotencyRecord>(
+        'SELECT request_hash, job_id, response FROM idempotency_keys WHERE user_id = $1 AND key = $2',
+        [userId, key]
+    );
+    const record = result.rows[0];
+    if (record.request_hash !== requestHash) {
+        throw new IdempotencyError(422, "This Idempotency-Key was already used for a different request.");
+    }
+    return record;
+};
+
+/**
+ * Links a reserved key to the job it queued. Call inside the reserving transaction.
+ */
+export const saveIdempotentJob = async (client: PoolClient, userId: string, key: string, jobId: string): Promise<void> => {
+    await client.query('UPDATE idempotency_keys SET job_id = $3 WHERE user_id = $1 AND key = $2', [userId, key, jobId]);
+};
+
+/**
+ * Stores the final response of a reserved key's request, to be replayed for its duplicates.
+ */
+export const saveIdempotentResponse = async (pool: Pool, userId: string, key: string, response: StoredResponse): Promise<void> => {
+    await pool.query('UPDATE idempotency_keys SET response = $3 WHERE user_id = $1 AND key = $2', [userId, key, JSON.stringify(response)]);
+};
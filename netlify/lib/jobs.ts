@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Pool, PoolClient } from 'pg';
+import { compensateFailedGeneration, markGenerationFailed, FAILURE_MESSAGES, GenerationPayment, GenerationResult, GenerationRun, RefundableFailure } from './generations';
+
+// --- Configuration ---
+// Jobs run in a background function, so Gemini can be given much longer than within a synchronous request.
+export const GEMINI_JOB_TIMEOUT_MS = parseInt(process.env.GEMINI_JOB_TIMEOUT_MS || '120000', 10);
+// A queued job whose worker has not started after this long is dispatched again, in case the first dispatch was lost.
+const JOB_REDISPATCH_AFTER_SECONDS = 15;
+// A job that has not finished this long after it was queued or started has lost its worker. It is failed and refunded.
+const JOB_STALE_AFTER_SECONDS = Math.ceil(GEMINI_JOB_TIMEOUT_MS / 1000) + 60;
+// Netlify runs functions whose name ends in `-background` asynchronously, and answers the caller with a 202 straight away.
+const WORKER_FUNCTION_PATH = '/.netlify/functions/generation-worker-background';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobFailure {
+    statusCode: number;
+    error: string;
+    reason?: string;
+    refunded?: boolean;
+    details?: string;
+}
+
+export interface GenerationJob {
+    id: string;
+    user_id: string;
+    generation_id: string;
+    status: JobStatus;
+    used_session_slot: boolean;
+    failure: JobFailure | null;
+    style_id: string;
+    style_label: string;
+    style_version: number;
+    region: string | null;
+    session_id: string | null;
+    created_at: string;
+    started_at: string | null;
+    completed_at: string | null;
+    needs_dispatch: boolean;
+    is_stale: boolean;
+}
+
+// A job as claimed by a worker, with what it needs to run.
+interface ClaimedJobRow {
+    user_id: string;
+    generation_id: string;
+    request_body: string;
+    used_session_slot: boolean;
+    session_id: string | null;
+    model: string;
+}
+
+/**
+ * How a job's generation was paid for.
+ */
+export const getJobPayment = (job: GenerationJob): GenerationPayment => ({
+    userId: job.user_id,
+    generationId: job.generation_id,
+    sessionId: job.session_id ?? undefined,
+    usedSessionSlot: job.used_session_slot,
+});
+
+/**
+ * The address of the site that received a request, for calling the worker function on the same deploy.
+ */
+export const getSiteOrigin = (headers: Record<string, string | undefined>): string =>
+    process.env.URL || `${headers['x-forwarded-proto'] || 'https'}://${headers.host}`;
+
+/**
+ * Loads one of a user's jobs, with its generation's style.
+ * @returns The job, or null if the user has no job with this ID.
+ */
+export const getJob = async (pool: Pool, jobId: string, userId: string): Promise<GenerationJob | null> => {
+    const result = await pool.query<GenerationJob>(
+        `SELECT j.id, j.user_id, j.generation_id, j.status, j.used_session_slot, j.failure, j.created_at, j.started_at, j.completed_at,
+                g.style_id, g.style_label, g.style_version, g.region, g.session_id,
+                j.status = 'queued' AND COALESCE(j.dispatched_at, j.created_at) < NOW() - make_interval(secs => $3) AS needs_dispatch,
+                j.status IN ('queued', 'running') AND COALESCE(j.started_at, j.created_at) < NOW() - make_interval(secs => $4) AS is_stale
+         FROM generation_jobs j JOIN generations g ON g.id = j.generation_id
+         WHERE j.id = $1 AND j.user_id = $2`,
+        [jobId, userId, JOB_REDISPATCH_AFTER_SECONDS, JOB_STALE_AFTER_SECONDS]
+    );
+    return result.rows[0] ?? null;
+};
+
+/**
+ * Asks the worker function to run a queued job. Failures are logged, not thrown: the job stays queued,
+ * and is dispatched again when the client next polls it.
+ */
+export const dispatchJob = async (pool: Pool, origin: string, jobId: string): Promise<void> => {
+    try {
+        await pool.query(`UPDATE generation_jobs SET dispatched_at = CURRENT_TIMESTAMP WHERE id = $1 AND status = 'queued'`, [jobId]);
+        const response = await fetch(`${origin}${WORKER_FUNCTION_PATH}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jobId }),
+        });
+        if (!response.ok) throw new Error(`The worker returned status ${response.status}`);
+    } catch (error) {
+        console.error(`Failed to dispatch job ${jobId}:`, error);
+    }
+};
+
+/**
+ * Marks a queued job as running, so no other worker invocation runs it too.
+ * @returns What the worker needs to run the job, or null if the job is not queued (already claimed, finished or unknown).
+ */
+export const claimJob = async (pool: Pool, jobId: string): Promise<(GenerationRun & { jobId: string }) | null> => {
+    const result = await pool.query<ClaimedJobRow>(
+        `UPDATE generation_jobs j SET status = 'running', started_at = CURRENT_TIMESTAMP
+         FROM generations g
+         WHERE j.id = $1 AND j.status = 'queued' AND g.id = j.generation_id
+         RETURNING j.user_id, j.generation_id, j.request_body, j.used_session_slot, g.session_id, g.model`,
+        [jobId]
+    );
+    if (result.rows.length === 0) return null;
+    const job = result.rows[0];
+    return {
+        jobId,
+        userId: job.user_id,
+        generationId: job.generation_id,
+        sessionId: job.session_id ?? undefined,
+        usedSessionSlot: job.used_session_slot,
+        model: job.model,
+        requestBody: job.request_body,
+    };
+};
+
+/**
+ * Moves a job that has not finished to its final status. The Gemini request body is dropped once the job has run.
+ * Only the first caller succeeds, so the worker and a poll failing the job as stale cannot both settle it.
+ * @returns Whether this caller moved the job.
+ */
+export const completeJob = async (pool: Pool | PoolClient, jobId: string, status: 'succeeded' | 'failed'): Promise<boolean> => {
+    const result = await pool.query(
+        `UPDATE generation_jobs SET status = $2, request_body = NULL, completed_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status IN ('queued', 'running')`,
+        [jobId, status]
+    );
+    return result.rowCount > 0;
+};
+
+/**
+ * Records the result of a job the worker ran. A failed run has already moved the job to `failed`
+ * (runGeneration claims it before compensating); a successful one is completed here.
+ */
+export const finishJob = async (pool: Pool, jobId: string, result: GenerationResult): Promise<void> => {
+    if (result.succeeded) {
+        if (!(await completeJob(pool, jobId, 'succeeded'))) {
+            console.warn(`Job ${jobId} succeeded after it was failed as stale. Its image is kept in the gallery.`);
+        }
+        return;
+    }
+    const failure: JobFailure = typeof result.body === 'string'
+        ? { statusCode: result.statusCode, error: "The AI model rejected the request.", details: result.body.slice(0, 500) }
+        : { statusCode: result.statusCode, ...(result.body as Omit<JobFailure, 'statusCode'>) };
+    await pool.query('UPDATE generation_jobs SET failure = $2 WHERE id = $1', [jobId, JSON.stringify(failure)]);
+};
+
+/**
+ * Fails a job whose generation did not complete, and gives back what it was paid with.
+ * Only the first caller fails the job, so it is compensated at most once.
+ * @param client A pool client, used for the refund transaction. It must not be in a transaction.
+ */
+export const failJob = async (client: PoolClient, jobId: string, payment: GenerationPayment, failure: RefundableFailure, detail?: string): Promise<void> => {
+    if (!(await completeJob(client, jobId, 'failed'))) return;
+
+    console.warn(`Job ${jobId} (generation ${payment.generationId}) failed: ${failure}${detail ? ` (${detail})` : ''}`);
+    await markGenerationFailed(payment.generationId, failure);
+    const { refunded, message } = await compensateFailedGeneration(client, payment, failure, detail);
+    const { statusCode, error } = FAILURE_MESSAGES[failure];
+    const jobFailure: JobFailure = { statusCode, error: `${error} ${message}`, reason: failure, refunded, details: detail };
+    await client.query('UPDATE generation_jobs SET failure = $2 WHERE id = $1', [jobId, JSON.stringify(jobFailure)]);
+};
+
+/**
+ * Cancels the jobs of a timeline session that no worker has started, so they never run.
+ * Must be called inside the transaction that cancels the session; the caller gives back what the jobs were paid with.
+ * @returns How each cancelled job's generation was paid for.
+ */
+export const cancelQueuedJobs = async (client: PoolClient, sessionId: string): Promise<GenerationPayment[]> => {
+    const failure: JobFailure = { statusCode: 409, error: "The timeline was cancelled before this decade started.", reason: 'cancelled', refunded: true };
+    const result = await client.query<Pick<ClaimedJobRow, 'user_id' | 'generation_id' | 'used_session_slot'>>(
+        `UPDATE generation_jobs j SET status = 'failed', failure = $2, request_body = NULL, completed_at = CURRENT_TIMESTAMP
+         FROM generations g
+         WHERE g.id = j.generation_id AND g.session_id = $1 AND j.status = 'queued'
+         RETURNING j.user_id, j.generation_id, j.used_session_slot`,
+        [sessionId, JSON.stringify(failure)]
+    );
+    const generationIds = result.rows.map(row => row.generation_id);
+    if (generationIds.length > 0) {
+        await client.query(
+            `UPDATE generations SET status = 'failed', failure_reason = 'cancelled', completed_at = CURRENT_TIMESTAMP WHERE id = ANY($1)`,
+            [generationIds]
+        );
+    }
+    return result.rows.map(row => ({
+        userId: row.user_id,
+        generationId: row.generation_id,
+        sessionId,
+        usedSessionSlot: row.used_session_slot,
+    }));
+};
+
+/**
+ * The job as returned to clients.
+ */
+export const toJobResponse = (job: GenerationJob) => ({
+    id: job.id,
+    status: job.status,
+    generationId: job.generation_id,
+    styleId: job.style_id,
+    styleLabel: job.style_label,
+    styleVersion: job.style_version,
+    region: job.region,
+    sessionId: job.session_id,
+    failure: job.failure,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    completedAt: job.completed_at,
+});
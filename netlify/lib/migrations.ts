@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Pool, PoolClient } from 'pg';
+import { migrations } from '../migrations';
+
+export interface Migration {
+    version: number; // Unique and increasing. Never renumber or edit a migration once it has been deployed.
+    name: string;
+    up: string; // SQL run inside a transaction together with its schema_migrations row.
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    appliedAt: Date | null;
+}
+
+// Arbitrary, fixed key for the Postgres advisory lock that serializes migration runs.
+// Concurrent cold starts wait on this lock instead of racing each other's DDL.
+const MIGRATION_LOCK_KEY = 724_837_455;
+
+const ensureMigrationsTable = async (client: PoolClient) => {
+    await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+};
+
+const validateMigrations = (list: Migration[]) => {
+    list.forEach((migration, index) => {
+        if (index > 0 && migration.version <= list[index - 1].version) {
+            throw new Error(`Migrations must be listed in increasing version order (found ${migration.version} after ${list[index - 1].version}).`);
+        }
+    });
+};
+
+/**
+ * Applies every pending migration in version order, each in its own transaction.
+ * Holds a session-level advisory lock for the whole run so only one process migrates at a time.
+ * @returns The migrations that were applied by this call.
+ */
+export async function runMigrations(pool: Pool, list: Migration[] = migrations): Promise<Migration[]> {
+    validateMigrations(list);
+    const client = await pool.connect();
+    const applied: Migration[] = [];
+    try {
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+        await ensureMigrationsTable(client);
+        const result = await client.query('SELECT version FROM schema_migrations');
+        const appliedVersions = new Set<number>(result.rows.map((row: { version: number }) => row.version));
+
+        for (const migration of list) {
+            if (appliedVersions.has(migration.version)) continue;
+            try {
+                await client.query('BEGIN');
+                await client.query(migration.up);
+                await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+                await client.query('COMMIT');
+            } catch (err) {
+                await client.query('ROLLBACK');
+                throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`);
+            }
+            console.log(`Applied database migration ${migration.version} (${migration.name}).`);
+            applied.push(migration);
+        }
+        return applied;
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+        client.release();
+    }
+}
+
+/**
+ * Lists every known migration and when it was applied (null if it is still pending).
+ */
+export async function getMigrationStatus(pool: Pool, list: Migration[] = migrations): Promise<MigrationStatus[]> {
+    const client = await pool.connect();
+    try {
+        await ensureMigrationsTable(client);
+        const result = await client.query('SELECT version, applied_at FROM schema_migrations');
+        const appliedAt = new Map<number, Date>(result.rows.map((row: { version: number; applied_at: Date }) => [row.version, row.applied_at]));
+        return list.map(({ version, name }) => ({ version, name, appliedAt: appliedAt.get(version) ?? null }));
+    } finally {
+        client.release();
+    }
+}
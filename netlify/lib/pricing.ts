@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A standalone generation (custom style, or a regeneration outside a timeline's allowance) costs one credit.
+export const SINGLE_GENERATION_COST = 1;
+
+// How many decades one credit buys in a timeline. With the default of 12, a full 1900s-2010s timeline costs one credit.
+const TIMELINE_DECADES_PER_CREDIT = parseInt(process.env.TIMELINE_DECADES_PER_CREDIT || '12', 10);
+
+// The largest timeline a single session can cover: every era in the catalog (see styles.ts).
+export const MAX_TIMELINE_DECADES = 26;
+
+// How long a timeline session can be used for its decade generations and regenerations.
+export const TIMELINE_SESSION_TTL_HOURS = 24;
+
+/**
+ * The number of credits charged when a timeline session covering `decadeCount` decades is opened.
+ */
+export const getTimelineCost = (decadeCount: number): number =>
+    Math.max(1, Math.ceil(decadeCount / TIMELINE_DECADES_PER_CREDIT));
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Pool } from 'pg';
+
+// --- Configuration ---
+// Limits are counted over a sliding window. Set any limit to 0 to disable it.
+const RATE_LIMIT_WINDOW_SECONDS = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60', 10);
+
+export type RateLimitScope = 'generate' | 'poll' | 'default';
+
+interface ScopeLimits {
+    perUser: number;
+    perIp: number;
+}
+
+// Generations are limited separately and more tightly, as each one is an upstream Gemini call.
+// The defaults leave room for a full timeline plus regenerations within a minute.
+const LIMITS: Record<RateLimitScope, ScopeLimits> = {
+    generate: {
+        perUser: parseInt(process.env.RATE_LIMIT_GENERATE_PER_USER || '30', 10),
+        perIp: parseInt(process.env.RATE_LIMIT_GENERATE_PER_IP || '60', 10),
+    },
+    // Job polls and timeline event streams, which a running timeline makes every few seconds for each decade in flight.
+    // They are cheap reads of the user's own jobs, so their limits are generous.
+    poll: {
+        perUser: parseInt(process.env.RATE_LIMIT_POLLS_PER_USER || '600', 10),
+        perIp: parseInt(process.env.RATE_LIMIT_POLLS_PER_IP || '1200', 10),
+    },
+    default: {
+        perUser: parseInt(process.env.RATE_LIMIT_REQUESTS_PER_USER || '120', 10),
+        perIp: parseInt(process.env.RATE_LIMIT_REQUESTS_PER_IP || '240', 10),
+    },
+};
+
+// Rows for callers that never come back are pruned by an occasional sweep rather than on every request.
+const SWEEP_PROBABILITY = 0.01;
+
+export interface RateLimitResult {
+    allowed: boolean;
+    retryAfterSeconds: number; // Only meaningful when the request is not allowed.
+}
+
+/**
+ * Records a hit for `key` and checks it against `limit` hits per window, in one transaction.
+ * Rejected requests are not recorded, so a client that backs off is not kept locked out.
+ */
+const hit = async (pool: Pool, key: string, limit: number): Promise<RateLimitResult> => {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        // Serialize concurrent requests for the same key, so a burst cannot all pass the count check together.
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+        await client.query(
+            'DELETE FROM rate_limit_hits WHERE bucket = $1 AND created_at <= NOW() - make_interval(secs => $2)',
+            [key, RATE_LIMIT_WINDOW_SECONDS]
+        );
+        const countRes = await client.query<{ hits: number; retry_after: number | null }>(
+            `SELECT COUNT(*)::int AS hits,
+                    CEIL(EXTRACT(EPOCH FROM (MIN(created_at) + make_interval(secs => $2) - NOW())))::int AS retry_after
+             FROM rate_limit_hits WHERE bucket = $1`,
+            [key, RATE_LIMIT_WINDOW_SECONDS]
+        );
+        const { hits, retry_after } = countRes.rows[0];
+        if (hits >= limit) {
+            await client.query('COMMIT');
+            return { allowed: false, retryAfterSeconds: Math.max(1, retry_after ?? RATE_LIMIT_WINDOW_SECONDS) };
+        }
+        await client.query('INSERT INTO rate_limit_hits (bucket) VALUES ($1)', [key]);
+        await client.query('COMMIT');
+        return { allowed: true, retryAfterSeconds: 0 };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+};
+
+const sweepExpiredHits = async (pool: Pool): Promise<void> => {
+    if (Math.random() >= SWEEP_PROBABILITY) return;
+    await pool.query('DELETE FROM rate_limit_hits WHERE created_at <= NOW() - make_interval(secs => $1)', [RATE_LIMIT_WINDOW_SECONDS]);
+};
+
+/**
+ * Checks a request against the per-user or per-IP limit of its scope.
+ * The limiter fails open: if the check itself errors, the request is allowed and the error logged,
+ * so a database hiccup in the limiter does not lock out every user.
+ */
+export async function checkRateLimit(pool: Pool, scope: RateLimitScope, subject: { userId?: string; ip?: string }): Promise<RateLimitResult> {
+    const { perUser, perIp } = LIMITS[scope];
+    const [key, limit] = subject.userId !== undefined
+        ? [`user:${subject.userId}:${scope}`, perUser]
+        : [`ip:${subject.ip}:${scope}`, perIp];
+    if (!limit || limit <= 0 || (subject.userId === undefined && !subject.ip)) {
+        return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    try {
+        const result = await hit(pool, key, limit);
+        await sweepExpiredHits(pool);
+        return result;
+    } catch (error) {
+        console.error(`Rate limit check failed for ${key}. Allowing the request.`, error);
+        return { allowed: true, retryAfterSeconds: 0 };
+    }
+}
+
+/**
+ * The caller's IP address as reported by Netlify's edge, falling back to the first `X-Forwarded-For` hop.
+ */
+export const getClientIp = (headers: Record<string, string | undefined>): string | undefined => {
+    const ip = headers['x-nf-client-connection-ip'] || headers['client-ip'] || headers['x-forwarded-for']?.split(',')[0];
+    return ip?.trim() || undefined;
+};
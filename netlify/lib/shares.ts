@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { randomBytes } from 'crypto';
+import type { Pool } from 'pg';
+import { MAX_TIMELINE_DECADES } from './pricing';
+
+// Room for the longest timeline, twice over: a gallery group can hold regenerations alongside the decades they replaced.
+export const MAX_SHARE_ITEMS = MAX_TIMELINE_DECADES * 2;
+export const MAX_SHARE_TITLE_LENGTH = 100;
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+
+export interface SharedAlbumItem {
+    id: string;
+    style_label: string;
+    mime_type: string;
+    storage_key: string;
+}
+
+export interface SharedAlbum {
+    slug: string;
+    title: string | null;
+    created_at: string;
+    expires_at: string | null;
+    items: SharedAlbumItem[];
+}
+
+/**
+ * A URL-safe slug that is too long to guess (72 random bits).
+ */
+export const createShareSlug = (): string => randomBytes(9).toString('base64url');
+
+/**
+ * Loads a shared album for public viewing, in the order its owner chose.
+ * @returns The album, or null if it does not exist, was revoked or has expired.
+ * Generations deleted from the owner's gallery since the album was shared are left out.
+ */
+export const getActiveSharedAlbum = async (pool: Pool, slug: string): Promise<SharedAlbum | null> => {
+    const albumResult = await pool.query<Omit<SharedAlbum, 'items'> & { generation_ids: string[] }>(
+        `SELECT slug, title, generation_ids, created_at, expires_at FROM shared_albums
+         WHERE slug = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+        [slug]
+    );
+    if (albumResult.rows.length === 0) return null;
+    const { generation_ids, ...album } = albumResult.rows[0];
+
+    const itemsResult = await pool.query<SharedAlbumItem>(
+        `SELECT id, style_label, mime_type, storage_key FROM generations
+         WHERE id = ANY($1) AND status = 'succeeded' AND deleted_at IS NULL AND storage_key IS NOT NULL`,
+        [generation_ids]
+    );
+    const items = [...itemsResult.rows].sort((a, b) => generation_ids.indexOf(a.id) - generation_ids.indexOf(b.id));
+    return { ...album, items };
+};
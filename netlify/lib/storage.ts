@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Pool } from 'pg';
+
+// --- Configuration ---
+// `postgres` (default) keeps image bytes in the `generation_images` table, so no extra service is needed.
+// `filesystem` writes them under `IMAGE_STORAGE_DIR`, which is useful for local development.
+const IMAGE_STORAGE = process.env.IMAGE_STORAGE || 'postgres';
+const IMAGE_STORAGE_DIR = process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), '.data', 'images');
+
+/**
+ * Stores generated image bytes by key. Metadata (owner, style, MIME type) lives in the `generations` table.
+ */
+export interface ImageStorage {
+    readonly name: string;
+    put(key: string, data: Buffer): Promise<void>;
+    get(key: string): Promise<Buffer | null>;
+    remove(key: string): Promise<void>;
+}
+
+const createPostgresStorage = (pool: Pool): ImageStorage => ({
+    name: 'postgres',
+    async put(key, data) {
+        await pool.query(
+            'INSERT INTO generation_images (key, data) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET data = EXCLUDED.data',
+            [key, data]
+        );
+    },
+    async get(key) {
+        const result = await pool.query<{ data: Buffer }>('SELECT data FROM generation_images WHERE key = $1', [key]);
+        return result.rows.length > 0 ? Buffer.from(result.rows[0].data) : null;
+    },
+    async remove(key) {
+        await pool.query('DELETE FROM generation_images WHERE key = $1', [key]);
+    },
+});
+
+const createFileSystemStorage = (directory: string): ImageStorage => {
+    // Keys are generated server-side, but never let one address a file outside the storage directory.
+    const filePath = (key: string) => {
+        if (!/^[A-Za-z0-9._-]+$/.test(key)) throw new Error(`Invalid storage key '${key}'.`);
+        return path.join(directory, key);
+    };
+    return {
+        name: 'filesystem',
+        async put(key, data) {
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(filePath(key), data);
+        },
+        async get(key) {
+            try {
+                return await fs.readFile(filePath(key));
+            } catch (error: any) {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        async remove(key) {
+            await fs.rm(filePath(key), { force: true });
+        },
+    };
+};
+
+/**
+ * Creates the image storage backend selected by `IMAGE_STORAGE`.
+ */
+export const createImageStorage = (pool: Pool): ImageStorage => {
+    switch (IMAGE_STORAGE) {
+        case 'postgres':
+            return createPostgresStorage(pool);
+        case 'filesystem':
+            return createFileSystemStorage(IMAGE_STORAGE_DIR);
+        default:
+            throw new Error(`Unknown IMAGE_STORAGE '${IMAGE_STORAGE}'. Use 'postgres' or 'filesystem'.`);
+    }
+};
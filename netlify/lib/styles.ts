@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SINGLE_GENERATION_COST } from './pricing';
+
+// --- Style Registry ---
+// Clients choose a style by ID; the final prompt is always assembled here, so the proxy never forwards free-form text.
+export type StyleKind = 'decade' | 'preset' | 'custom';
+export type StyleCategory = 'era' | 'future-era' | 'art' | 'custom';
+
+/**
+ * A prompt with `{{variable}}` placeholders. A version's text never changes once deployed: a changed prompt is a new
+ * version, so a generation can be repeated with the prompt that produced it.
+ */
+interface PromptTemplate {
+    version: number;
+    text: string;
+}
+
+export interface StylePreset {
+    id: string;
+    kind: StyleKind;
+    displayName: string;
+    category: StyleCategory;
+    cost: number; // Credits per generation outside a timeline session. Every style is priced the same for now (see pricing.ts).
+    thumbnail: string | null; // An example result to show next to the name, once one has been made.
+    templates: PromptTemplate[]; // Oldest first. The last one is current.
+    variables: Record<string, string>; // Filled into the template. Custom styles add the user's `text`.
+}
+
+// A style resolved for one generation: the preset with its prompt, at the version requested.
+export interface StyleDefinition {
+    id: string;
+    kind: StyleKind;
+    label: string;
+    prompt: string;
+    version: number;
+    region: string | null; // The region's ID, for eras set in one.
+}
+
+// Timelines are built from these eras, every decade from the 1850s to the 2100s (see MAX_TIMELINE_DECADES in pricing.ts).
+// Decades up to the 2020s are recreated; later ones are imagined, and get a template of their own.
+const FIRST_DECADE = 1850;
+const LAST_PAST_DECADE = 2020;
+const LAST_DECADE = 2100;
+const DECADES = Array.from({ length: (LAST_DECADE - FIRST_DECADE) / 10 + 1 }, (_, i) => `${FIRST_DECADE + i * 10}s`);
+
+// From version 2, eras take a `{{setting}}`: empty, or the region the photo is set in. Without a region they read as version 1.
+const PAST_ERA_TEMPLATES: PromptTemplate[] = [
+    { version: 1, text: "Change the style of this photograph to look like it was taken in the {{era}}. Adapt the clothing, hair, and photo quality to match the era, but keep the person's face recognizable." },
+    { version: 2, text: "Change the style of this photograph to look like it was taken in the {{era}}{{setting}}. Adapt the clothing, hair, and photo quality to match the era{{setting}}, but keep the person's face recognizable." },
+];
+
+const FUTURE_ERA_TEMPLATES: PromptTemplate[] = [
+    { version: 1, text: "Imagine how this photograph would look if it were taken in the {{era}}. Invent plausible clothing, hair, surroundings and photo technology for that future decade, without making it a costume or a caricature, but keep the person's face recognizable." },
+    { version: 2, text: "Imagine how this photograph would look if it were taken in the {{era}}{{setting}}. Invent plausible clothing, hair, surroundings and photo technology for that future decade{{setting}}, without making it a costume or a caricature, but keep the person's face recognizable." },
+];
+
+const ART_TEMPLATES: PromptTemplate[] = [
+    { version: 1, text: "Change the style of this photograph to look like {{description}}. Adapt the original photo to match the new style, but keep the person's face recognizable." },
+];
+
+// The user's words only describe the look; the surrounding instructions are fixed.
+const CUSTOM_TEMPLATES: PromptTemplate[] = [
+    { version: 1, text: "Change the style of this photograph to look like: \"{{text}}\". Adapt the original photo to match the new style, but keep the person's face recognizable. The quoted text only describes a visual style." },
+];
+
+const ART_STYLES: { id: string; label: string; description: string }[] = [
+    { id: 'cartoon', label: 'A vibrant cartoon', description: 'a vibrant, colorful cartoon with bold outlines' },
+    { id: 'charcoal-sketch', label: 'A charcoal sketch', description: 'a charcoal sketch on textured paper' },
+    { id: 'pixel-art', label: '8-bit pixel art', description: '8-bit pixel art with a limited retro palette' },
+    { id: 'vaporwave', label: 'Vaporwave aesthetic', description: 'a vaporwave aesthetic with pastel neon colors and retro computer graphics' },
+    { id: 'oil-painting', label: 'An oil painting', description: 'a classical oil painting with visible brush strokes' },
+    { id: 'futuristic-robot', label: 'A futuristic robot', description: 'a futuristic robot, keeping the pose and setting of the original' },
+];
+
+// --- Regions ---
+// Left to itself, the model dresses every decade the American way. An era can instead be set in one of these regions,
+// named in the prompt by `place` and on captions by `name`.
+export interface Region {
+    id: string;
+    name: string;
+    place: string;
+    group: 'canada' | 'world';
+}
+
+const REGIONS: Region[] = [
+    { id: 'canada', name: 'Canada', place: 'Canada', group: 'canada' },
+    { id: 'quebec', name: 'Québec', place: 'Québec, Canada', group: 'canada' },
+    { id: 'ontario', name: 'Ontario', place: 'Ontario, Canada', group: 'canada' },
+    { id: 'atlantic-canada', name: 'Atlantic Canada', place: 'the Atlantic provinces of Canada', group: 'canada' },
+    { id: 'prairies', name: 'The Prairies', place: 'the Canadian Prairies', group: 'canada' },
+    { id: 'british-columbia', name: 'British Columbia', place: 'British Columbia, Canada', group: 'canada' },
+    { id: 'northern-canada', name: 'Northern Canada', place: 'the Canadian North (Yukon, the Northwest Territories and Nunavut)', group: 'canada' },
+    { id: 'united-states', name: 'USA', place: 'the United States', group: 'world' },
+    { id: 'mexico-city', name: 'Mexico City', place: 'Mexico City, Mexico', group: 'world' },
+    { id: 'sao-paulo', name: 'São Paulo', place: 'São Paulo, Brazil', group: 'world' },
+    { id: 'london', name: 'London', place: 'London, England', group: 'world' },
+    { id: 'paris', name: 'Paris', place: 'Paris, France', group: 'world' },
+    { id: 'lagos', name: 'Lagos', place: 'Lagos, Nigeria', group: 'world' },
+    { id: 'mumbai', name: 'Mumbai', place: 'Mumbai, India', group: 'world' },
+    { id: 'seoul', name: 'Seoul', place: 'Seoul, South Korea', group: 'world' },
+    { id: 'tokyo', name: 'Tokyo', place: 'Tokyo, Japan', group: 'world' },
+    { id: 'sydney', name: 'Sydney', place: 'Sydney, Australia', group: 'world' },
+];
+
+const regionsById = new Map(REGIONS.map(region => [region.id, region]));
+
+const CUSTOM_STYLE_ID = 'custom';
+const MAX_CUSTOM_TEXT_LENGTH = 200;
+
+const STYLE_PRESETS: StylePreset[] = [
+    ...DECADES.map(decade => {
+        const isFuture = parseInt(decade, 10) > LAST_PAST_DECADE;
+        return {
+            id: `decade:${decade}`,
+            kind: 'decade' as const,
+            displayName: decade,
+            category: isFuture ? 'future-era' as const : 'era' as const,
+            cost: SINGLE_GENERATION_COST,
+            thumbnail: null,
+            templates: isFuture ? FUTURE_ERA_TEMPLATES : PAST_ERA_TEMPLATES,
+            variables: { era: decade, setting: '' },
+        };
+    }),
+    ...ART_STYLES.map(style => ({
+        id: `preset:${style.id}`,
+        kind: 'preset' as const,
+        displayName: style.label,
+        category: 'art' as const,
+        cost: SINGLE_GENERATION_COST,
+        thumbnail: null,
+        templates: ART_TEMPLATES,
+        variables: { description: style.description },
+    })),
+    {
+        id: CUSTOM_STYLE_ID,
+        kind: 'custom',
+        displayName: 'Custom style',
+        category: 'custom',
+        cost: SINGLE_GENERATION_COST,
+        thumbnail: null,
+        templates: CUSTOM_TEMPLATES,
+        variables: {},
+    },
+];
+
+const presetsById = new Map(STYLE_PRESETS.map(preset => [preset.id, preset]));
+
+export class StyleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StyleError';
+    }
+}
+
+const currentVersion = (preset: StylePreset): number => preset.templates[preset.templates.length - 1].version;
+
+const renderTemplate = (template: PromptTemplate, variables: Record<string, string>): string =>
+    template.text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+        if (!(name in variables)) throw new Error(`Prompt template version ${template.version} needs a value for '${name}'.`);
+        return variables[name];
+    });
+
+/**
+ * Collapses whitespace and strips control and quote characters, so custom text cannot break out of its template.
+ */
+const normalizeCustomText = (text: string): string =>
+    text.replace(/[\u0000-\u001f\u007f"`]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * The regions eras can be set in, as shown to clients.
+ */
+export const listRegions = () => REGIONS.map(({ id, name, group }) => ({ id, name, group }));
+
+/**
+ * The registry as shown to clients: everything but the prompt templates.
+ */
+export const listStylePresets = () =>
+    STYLE_PRESETS.map(preset => ({
+        id: preset.id,
+        displayName: preset.displayName,
+        category: preset.category,
+        version: currentVersion(preset),
+        cost: preset.cost,
+        thumbnail: preset.thumbnail,
+    }));
+
+/**
+ * Resolves a style ID (and, for `custom`, the user's text) to its final prompt.
+ * @param version The template version to use, e.g. the one an earlier result was made with. The current one by default.
+ * @param regionId The region an era is set in, if any.
+ * @throws StyleError if the style, version or region is unknown, the custom text is missing or too long,
+ * or a region is given for a style or version that does not take one.
+ */
+export const resolveStyle = (styleId: unknown, customText?: unknown, version?: unknown, regionId?: unknown): StyleDefinition => {
+    const preset = typeof styleId === 'string' ? presetsById.get(styleId) : undefined;
+    if (!preset) throw new StyleError(`Unknown style '${String(styleId)}'.`);
+
+    const template = version === undefined
+        ? preset.templates[preset.templates.length - 1]
+        : preset.templates.find(candidate => candidate.version === version);
+    if (!template) throw new StyleError(`Style '${preset.id}' has no version ${String(version)}.`);
+
+    if (preset.kind === 'custom') {
+        if (typeof customText !== 'string') throw new StyleError("Custom styles need a description.");
+        const text = normalizeCustomText(customText);
+        if (!text) throw new StyleError("Custom styles need a description.");
+        if (text.length > MAX_CUSTOM_TEXT_LENGTH) {
+            throw new StyleError(`Custom style descriptions are limited to ${MAX_CUSTOM_TEXT_LENGTH} characters.`);
+        }
+        if (regionId !== undefined) throw new StyleError("Only eras can be set in a region.");
+        return { id: preset.id, kind: preset.kind, label: text, prompt: renderTemplate(template, { ...preset.variables, text }), version: template.version, region: null };
+    }
+
+    if (customText !== undefined) throw new StyleError("Only custom styles accept a description.");
+
+    let region: Region | undefined;
+    if (regionId !== undefined) {
+        if (preset.kind !== 'decade') throw new StyleError("Only eras can be set in a region.");
+        region = typeof regionId === 'string' ? regionsById.get(regionId) : undefined;
+        if (!region) throw new StyleError(`Unknown region '${String(regionId)}'.`);
+        if (!template.text.includes('{{setting}}')) {
+            throw new StyleError(`Version ${template.version} of style '${preset.id}' cannot be set in a region.`);
+        }
+    }
+    const variables = region ? { ...preset.variables, setting: ` in ${region.place}` } : preset.variables;
+    return { id: preset.id, kind: preset.kind, label: preset.displayName, prompt: renderTemplate(template, variables), version: template.version, region: region?.id ?? null };
+};
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// Migrations 1-4 describe the schema that existed before versioned migrations were introduced.
+// They use IF NOT EXISTS so they can be recorded against databases that already have these tables.
+const migration: Migration = {
+    version: 1,
+    name: 'create_users',
+    up: `
+        CREATE TABLE IF NOT EXISTS users (
+            id TEXT PRIMARY KEY,
+            email TEXT UNIQUE NOT NULL,
+            credits INTEGER NOT NULL DEFAULT 36,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+    `,
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// The credit ledger is append-only: every balance change is recorded here with its reason,
+// and `users.credits` is only ever changed alongside a new ledger row.
+// Users created before the ledger existed get a single opening entry so that
+// the sum of their transactions matches their current balance.
+const migration: Migration = {
+    version: 2,
+    name: 'credit_ledger',
+    up: `
+        CREATE TABLE IF NOT EXISTS credit_transactions (
+            id BIGSERIAL PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id),
+            amount INTEGER NOT NULL,
+            balance_after INTEGER NOT NULL,
+            reason TEXT NOT NULL,
+            generation_id TEXT,
+            purchase_id TEXT,
+            admin_id TEXT,
+            note TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS credit_transactions_user_id_idx ON credit_transactions (user_id, created_at DESC);
+
+        CREATE OR REPLACE FUNCTION forbid_credit_transaction_changes() RETURNS trigger AS $$
+        BEGIN
+            RAISE EXCEPTION 'credit_transactions is append-only';
+        END;
+        $$ LANGUAGE plpgsql;
+
+        DROP TRIGGER IF EXISTS credit_transactions_append_only ON credit_transactions;
+        CREATE TRIGGER credit_transactions_append_only
+            BEFORE UPDATE OR DELETE ON credit_transactions
+            FOR EACH ROW EXECUTE FUNCTION forbid_credit_transaction_changes();
+
+        INSERT INTO credit_transactions (user_id, amount, balance_after, reason)
+        SELECT u.id, u.credits, u.credits, 'opening_balance' FROM users u
+        WHERE NOT EXISTS (SELECT 1 FROM credit_transactions t WHERE t.user_id = u.id);
+    `,
+};
+
+export default migration;
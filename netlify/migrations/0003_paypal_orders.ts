@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// One row per PayPal order. The primary key is what guarantees an order is only ever processed once,
+// no matter how many times PayPal redelivers its webhook events.
+const migration: Migration = {
+    version: 3,
+    name: 'paypal_orders',
+    up: `
+        CREATE TABLE IF NOT EXISTS paypal_orders (
+            order_id TEXT PRIMARY KEY,
+            event_id TEXT NOT NULL,
+            event_type TEXT NOT NULL,
+            status TEXT NOT NULL,
+            user_id TEXT REFERENCES users(id),
+            payer_email TEXT,
+            amount TEXT,
+            currency TEXT,
+            credits INTEGER,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+    `,
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// Admin-managed fields and the audit trail of every admin change.
+const migration: Migration = {
+    version: 4,
+    name: 'admin_audit_log',
+    up: `
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS email_locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+        CREATE TABLE IF NOT EXISTS admin_audit_log (
+            id BIGSERIAL PRIMARY KEY,
+            admin_id TEXT NOT NULL,
+            admin_email TEXT NOT NULL,
+            action TEXT NOT NULL,
+            target_user_id TEXT NOT NULL REFERENCES users(id),
+            reason TEXT NOT NULL,
+            details JSONB NOT NULL DEFAULT '{}'::jsonb,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx ON admin_audit_log (created_at DESC);
+    `,
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// A timeline session is paid for once when it is opened, and then covers a fixed number of decade generations.
+const migration: Migration = {
+    version: 5,
+    name: 'timeline_sessions',
+    up: `
+        CREATE TABLE timeline_sessions (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id),
+            generation_allowance INTEGER NOT NULL,
+            generations_used INTEGER NOT NULL DEFAULT 0,
+            slots_returned INTEGER NOT NULL DEFAULT 0,
+            credits_charged INTEGER NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+        );
+        CREATE INDEX timeline_sessions_user_id_idx ON timeline_sessions (user_id, created_at DESC);
+
+        ALTER TABLE credit_transactions ADD COLUMN session_id TEXT REFERENCES timeline_sessions(id);
+    `,
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// One row per accepted request, per rate limit bucket (e.g. `user:<id>:generate` or `ip:<address>:default`).
+const migration: Migration = {
+    version: 6,
+    name: 'rate_limits',
+    up: `
+        CREATE TABLE rate_limit_hits (
+            id BIGSERIAL PRIMARY KEY,
+            bucket TEXT NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX rate_limit_hits_bucket_idx ON rate_limit_hits (bucket, created_at);
+    `,
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// Every generation is recorded, successful or not. The image bytes of successful ones go to the configured
+// image storage (see lib/storage.ts); `generation_images` backs the default Postgres storage.
+const migration: Migration = {
+    version: 7,
+    name: 'generations',
+    up: `
+        CREATE TABLE generations (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id),
+            style_id TEXT NOT NULL,
+            prompt TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+            failure_reason TEXT,
+            session_id TEXT REFERENCES timeline_sessions(id),
+            model TEXT NOT NULL,
+            mime_type TEXT,
+            storage_key TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            completed_at TIMESTAMP WITH TIME ZONE
+        );
+        CREATE INDEX generations_user_id_idx ON generations (user_id, created_at DESC);
+
+        CREATE TABLE generation_images (
+            key TEXT PRIMARY KEY,
+            data BYTEA NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        );
+    `,
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// The gallery shows a generation's style by its label, and lets users delete generations. Deleted generations
+// keep their row (credit transactions refer to them) but lose their image.
+const migration: Migration = {
+    version: 8,
+    name: 'gallery',
+    up: `
+        ALTER TABLE generations ADD COLUMN style_label TEXT;
+        UPDATE generations SET style_label = CASE WHEN style_id LIKE '%:%' THEN split_part(style_id, ':', 2) ELSE style_id END;
+        ALTER TABLE generations ALTER COLUMN style_label SET NOT NULL;
+
+        ALTER TABLE generations ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+    `,
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// A shared album is a public, read-only list of a user's generations at `/s/<slug>`. Links can expire and be revoked.
+const migration: Migration = {
+    version: 9,
+    name: 'shared_albums',
+    up: `
+        CREATE TABLE shared_albums (
+            slug TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id),
+            title TEXT,
+            generation_ids TEXT[] NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            expires_at TIMESTAMP WITH TIME ZONE,
+            revoked_at TIMESTAMP WITH TIME ZONE
+        );
+        CREATE INDEX shared_albums_user_id_idx ON shared_albums (user_id, created_at DESC);
+    `,
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// Generations queued through `POST /jobs` and run by the background worker. The Gemini request body is kept
+// only until the job has run.
+const migration: Migration = {
+    version: 10,
+    name: 'generation_jobs',
+    up: `
+        CREATE TABLE generation_jobs (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id),
+            generation_id TEXT NOT NULL REFERENCES generations(id),
+            status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+            request_body TEXT,
+            used_session_slot BOOLEAN NOT NULL DEFAULT FALSE,
+            failure JSONB,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            dispatched_at TIMESTAMP WITH TIME ZONE,
+            started_at TIMESTAMP WITH TIME ZONE,
+            completed_at TIMESTAMP WITH TIME ZONE
+        );
+        CREATE INDEX generation_jobs_user_id_idx ON generation_jobs (user_id, created_at DESC);
+    `,
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// The outcome of each generation request sent with an `Idempotency-Key`, so a retried request is answered
+// from here instead of being charged again. Keys are scoped to their user and pruned after a day.
+const migration: Migration = {
+    version: 11,
+    name: 'idempotency_keys',
+    up: `
+        CREATE TABLE idempotency_keys (
+            user_id TEXT NOT NULL REFERENCES users(id),
+            key TEXT NOT NULL,
+            request_hash TEXT NOT NULL,
+            job_id TEXT REFERENCES generation_jobs(id),
+            response JSONB,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (user_id, key)
+        );
+        CREATE INDEX idempotency_keys_created_at_idx ON idempotency_keys (created_at);
+    `,
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// A cancelled timeline session covers no further generations. Its decades that never started were refunded.
+const migration: Migration = {
+    version: 12,
+    name: 'timeline_cancellation',
+    up: `
+        ALTER TABLE timeline_sessions ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+    `,
+};
+
+export default migration;
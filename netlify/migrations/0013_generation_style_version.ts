@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// The version of the style's prompt template a generation was made with (see lib/styles.ts), so it can be regenerated
+// with the same prompt after the template changes. Generations from before versioning used version 1.
+const migration: Migration = {
+    version: 13,
+    name: 'generation_style_version',
+    up: `
+        ALTER TABLE generations ADD COLUMN style_version INTEGER NOT NULL DEFAULT 1;
+    `,
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+
+// The region an era was set in (see REGIONS in lib/styles.ts), so the gallery can caption and regenerate it the same way.
+// Null for generations without one, including every generation from before regions.
+const migration: Migration = {
+    version: 14,
+    name: 'generation_region',
+    up: `
+        ALTER TABLE generations ADD COLUMN region TEXT;
+    `,
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Migration } from '../lib/migrations';
+import createUsers from './0001_create_users';
+import creditLedger from './0002_credit_ledger';
+import paypalOrders from './0003_paypal_orders';
+import adminAuditLog from './0004_admin_audit_log';
+import timelineSessions from './0005_timeline_sessions';
+import rateLimits from './0006_rate_limits';
+import generations from './0007_generations';
+import gallery from './0008_gallery';
+import sharedAlbums from './0009_shared_albums';
+import generationJobs from './0010_generation_jobs';
+import idempotencyKeys from './0011_idempotency_keys';
+import timelineCancellation from './0012_timeline_cancellation';
+import generationStyleVersion from './0013_generation_style_version';
+import generationRegion from './0014_generation_region';
+
+// To change the schema, add a new numbered file and append it here. Never edit a deployed migration.
+export const migrations: Migration[] = [
+    createUsers,
+    creditLedger,
+    paypalOrders,
+    adminAuditLog,
+    timelineSessions,
+    rateLimits,
+    generations,
+    gallery,
+    sharedAlbums,
+    generationJobs,
+    idempotencyKeys,
+    timelineCancellation,
+    generationStyleVersion,
+    generationRegion,
+];
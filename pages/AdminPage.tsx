@@ -2,10 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Link, Navigate } from 'react-router-dom';
 import { useUserContext } from '../contexts/AuthContext';
-import { getAllUsers } from '../services/geminiService';
+import { getAllUsers, adjustUserCredits, updateUserEmail, getAdminAuditLog, AdminCreditAction, AdminAuditEntry } from '../services/geminiService';
 
 interface UserData {
     id: string;
@@ -15,11 +15,107 @@ interface UserData {
     last_seen_at: string;
 }
 
+// An edit the admin has filled in. It is only sent to the server after it has been confirmed.
+type PendingChange =
+    | { kind: 'credits'; user: UserData; action: AdminCreditAction; amount: number; reason: string }
+    | { kind: 'email'; user: UserData; email: string; reason: string };
+
+type EditorState = { kind: 'credits' | 'email'; user: UserData } | null;
+
+const ACTION_LABELS: Record<string, string> = {
+    credits_grant: 'Granted credits',
+    credits_revoke: 'Revoked credits',
+    credits_set: 'Set credits',
+    email_update: 'Changed email',
+};
+
+const inputClasses = "w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-400";
+const dialogButtonClasses = "px-4 py-2 rounded font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const describeChange = (change: PendingChange): string => {
+    if (change.kind === 'email') {
+        return `Change the email of ${change.user.email} to ${change.email}?`;
+    }
+    switch (change.action) {
+        case 'grant': return `Grant ${change.amount} credits to ${change.user.email}? Their balance will be ${change.user.credits + change.amount}.`;
+        case 'revoke': return `Revoke ${change.amount} credits from ${change.user.email}? Their balance will be ${change.user.credits - change.amount}.`;
+        case 'set': return `Set the balance of ${change.user.email} from ${change.user.credits} to ${change.amount} credits?`;
+    }
+};
+
+const Dialog = ({ title, children, onClose }: { title: string; children: React.ReactNode; onClose: () => void }) => (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose} role="dialog" aria-modal="true" aria-label={title}>
+        <div className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-lg shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+            <h2 className="text-xl font-bold text-white mb-4">{title}</h2>
+            {children}
+        </div>
+    </div>
+);
+
+const EditUserDialog = ({ editor, onCancel, onSubmit }: { editor: NonNullable<EditorState>; onCancel: () => void; onSubmit: (change: PendingChange) => void }) => {
+    const [action, setAction] = useState<AdminCreditAction>('grant');
+    const [amount, setAmount] = useState('');
+    const [email, setEmail] = useState(editor.user.email);
+    const [reason, setReason] = useState('');
+
+    const parsedAmount = Number(amount);
+    const isAmountValid = amount.trim() !== '' && Number.isInteger(parsedAmount) && parsedAmount >= (action === 'set' ? 0 : 1)
+        && (action !== 'revoke' || parsedAmount <= editor.user.credits);
+    const isEmailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim()) && email.trim() !== editor.user.email;
+    const canSubmit = reason.trim() !== '' && (editor.kind === 'credits' ? isAmountValid : isEmailValid);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit(editor.kind === 'credits'
+            ? { kind: 'credits', user: editor.user, action, amount: parsedAmount, reason: reason.trim() }
+            : { kind: 'email', user: editor.user, email: email.trim(), reason: reason.trim() });
+    };
+
+    return (
+        <Dialog title={editor.kind === 'credits' ? 'Adjust Credits' : 'Edit Email'} onClose={onCancel}>
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                <p className="text-sm text-slate-400">
+                    User: <span className="font-mono text-cyan-300">{editor.user.email}</span>
+                    {editor.kind === 'credits' && <> · Balance: <span className="font-mono text-amber-300">{editor.user.credits}</span></>}
+                </p>
+                {editor.kind === 'credits' ? (
+                    <div className="flex gap-2">
+                        <select value={action} onChange={(e) => setAction(e.target.value as AdminCreditAction)} className={inputClasses} aria-label="Credit action">
+                            <option value="grant">Grant</option>
+                            <option value="revoke">Revoke</option>
+                            <option value="set">Set balance to</option>
+                        </select>
+                        <input type="number" min={0} step={1} value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="Amount" className={inputClasses} aria-label="Amount" />
+                    </div>
+                ) : (
+                    <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClasses} aria-label="New email" />
+                )}
+                <textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (required, recorded in the audit trail)" rows={2} className={inputClasses} aria-label="Reason" />
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onCancel} className={`${dialogButtonClasses} text-slate-300 hover:bg-slate-700`}>Cancel</button>
+                    <button type="submit" disabled={!canSubmit} className={`${dialogButtonClasses} bg-teal-500 text-slate-900 hover:bg-teal-400`}>Review</button>
+                </div>
+            </form>
+        </Dialog>
+    );
+};
+
 const AdminPage = () => {
     const { isAdmin, isLoading: isAuthLoading, getAccessTokenSilently } = useUserContext();
     const [users, setUsers] = useState<UserData[]>([]);
+    const [auditLog, setAuditLog] = useState<AdminAuditEntry[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [editor, setEditor] = useState<EditorState>(null);
+    const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    const refreshAuditLog = useCallback(async () => {
+        const token = await getAccessTokenSilently();
+        setAuditLog(await getAdminAuditLog(token));
+    }, [getAccessTokenSilently]);
 
     useEffect(() => {
         const fetchUsers = async () => {
@@ -33,8 +129,9 @@ const AdminPage = () => {
                 setIsLoading(true);
                 setError(null);
                 const token = await getAccessTokenSilently();
-                const data = await getAllUsers(token);
+                const [data, log] = await Promise.all([getAllUsers(token), getAdminAuditLog(token)]);
                 setUsers(data);
+                setAuditLog(log);
             } catch (err: any) {
                 setError(err.message || 'Failed to fetch user data.');
             } finally {
@@ -45,6 +142,67 @@ const AdminPage = () => {
         fetchUsers();
     }, [isAdmin, isAuthLoading, getAccessTokenSilently]);
 
+    const handleConfirm = async () => {
+        if (!pendingChange) return;
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const token = await getAccessTokenSilently();
+            const updated = pendingChange.kind === 'credits'
+                ? await adjustUserCredits(token, pendingChange.user.id, { action: pendingChange.action, amount: pendingChange.amount, reason: pendingChange.reason })
+                : await updateUserEmail(token, pendingChange.user.id, { email: pendingChange.email, reason: pendingChange.reason });
+            setUsers(prev => prev.map(u => u.id === updated.id ? { ...u, email: updated.email, credits: updated.credits } : u));
+            setPendingChange(null);
+            await refreshAuditLog();
+        } catch (err: any) {
+            setSaveError(err.message || 'Failed to save the change.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderAuditLog = () => (
+        <div className="w-full max-w-5xl mt-10">
+            <h2 className="text-xl font-bold text-white mb-3">Audit Trail</h2>
+            {auditLog.length === 0 ? (
+                <p className="text-slate-400">No admin changes have been made yet.</p>
+            ) : (
+                <div className="bg-[#1e293b]/50 border border-slate-700 rounded-lg overflow-hidden shadow-2xl">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-slate-800/50">
+                                <tr>
+                                    <th className="p-3 font-semibold text-slate-300">When</th>
+                                    <th className="p-3 font-semibold text-slate-300">Admin</th>
+                                    <th className="p-3 font-semibold text-slate-300">Action</th>
+                                    <th className="p-3 font-semibold text-slate-300">User</th>
+                                    <th className="p-3 font-semibold text-slate-300">Change</th>
+                                    <th className="p-3 font-semibold text-slate-300">Reason</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800">
+                                {auditLog.map(entry => (
+                                    <tr key={entry.id}>
+                                        <td className="p-3 text-slate-400 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                                        <td className="p-3 font-mono text-slate-400 whitespace-nowrap">{entry.admin_email}</td>
+                                        <td className="p-3 text-slate-300 whitespace-nowrap">{ACTION_LABELS[entry.action] || entry.action}</td>
+                                        <td className="p-3 font-mono text-cyan-300 whitespace-nowrap">{entry.target_email}</td>
+                                        <td className="p-3 font-mono text-amber-300 whitespace-nowrap">
+                                            {entry.action === 'email_update'
+                                                ? `${entry.details.previousEmail} → ${entry.details.newEmail}`
+                                                : `${entry.details.previousBalance} → ${entry.details.newBalance}`}
+                                        </td>
+                                        <td className="p-3 text-slate-400">{entry.reason}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+
     const renderContent = () => {
         if (isLoading || isAuthLoading) {
             return <p className="text-center text-slate-400 text-lg animate-pulse">Loading User Data...</p>;
@@ -54,7 +212,7 @@ const AdminPage = () => {
             // Redirect non-admins to the home page.
             return <Navigate to="/" replace />;
         }
-        
+
         if (error) {
             return <p className="text-center text-red-400">{error}</p>;
         }
@@ -64,30 +222,46 @@ const AdminPage = () => {
         }
 
         return (
-            <div className="w-full max-w-5xl bg-[#1e293b]/50 border border-slate-700 rounded-lg overflow-hidden shadow-2xl">
-                <div className="overflow-x-auto">
-                    <table className="w-full text-left">
-                        <thead className="bg-slate-800/50">
-                            <tr>
-                                <th className="p-4 font-semibold text-slate-300">Email</th>
-                                <th className="p-4 font-semibold text-slate-300 text-center">Credits</th>
-                                <th className="p-4 font-semibold text-slate-300">Joined</th>
-                                <th className="p-4 font-semibold text-slate-300">Last Seen</th>
-                            </tr>
-                        </thead>
-                        <tbody className="divide-y divide-slate-800">
-                            {users.map(user => (
-                                <tr key={user.id} className="hover:bg-slate-800/40 transition-colors">
-                                    <td className="p-4 font-mono text-cyan-300 whitespace-nowrap">{user.email}</td>
-                                    <td className="p-4 font-mono text-amber-300 text-center">{user.credits}</td>
-                                    <td className="p-4 text-slate-400 whitespace-nowrap">{new Date(user.created_at).toLocaleString()}</td>
-                                    <td className="p-4 text-slate-400 whitespace-nowrap">{new Date(user.last_seen_at).toLocaleString()}</td>
+            <>
+                <div className="w-full max-w-5xl bg-[#1e293b]/50 border border-slate-700 rounded-lg overflow-hidden shadow-2xl">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="bg-slate-800/50">
+                                <tr>
+                                    <th className="p-4 font-semibold text-slate-300">Email</th>
+                                    <th className="p-4 font-semibold text-slate-300 text-center">Credits</th>
+                                    <th className="p-4 font-semibold text-slate-300">Joined</th>
+                                    <th className="p-4 font-semibold text-slate-300">Last Seen</th>
+                                    <th className="p-4 font-semibold text-slate-300 text-right">Actions</th>
                                 </tr>
-                            ))}
-                        </tbody>
-                    </table>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800">
+                                {users.map(user => (
+                                    <tr key={user.id} className="hover:bg-slate-800/40 transition-colors">
+                                        <td className="p-4 font-mono text-cyan-300 whitespace-nowrap">
+                                            <Link to={`/credits?userId=${encodeURIComponent(user.id)}`} className="hover:text-cyan-200 hover:underline" title="View credit history">
+                                                {user.email}
+                                            </Link>
+                                        </td>
+                                        <td className="p-4 font-mono text-amber-300 text-center">{user.credits}</td>
+                                        <td className="p-4 text-slate-400 whitespace-nowrap">{new Date(user.created_at).toLocaleString()}</td>
+                                        <td className="p-4 text-slate-400 whitespace-nowrap">{new Date(user.last_seen_at).toLocaleString()}</td>
+                                        <td className="p-4 text-right whitespace-nowrap">
+                                            <button onClick={() => setEditor({ kind: 'credits', user })} className="text-teal-400 hover:text-teal-300 transition-colors mr-4">
+                                                Credits
+                                            </button>
+                                            <button onClick={() => setEditor({ kind: 'email', user })} className="text-teal-400 hover:text-teal-300 transition-colors">
+                                                Edit Email
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
                 </div>
-            </div>
+                {renderAuditLog()}
+            </>
         );
     };
 
@@ -101,8 +275,34 @@ const AdminPage = () => {
             <div className="mt-8">
                 <Link to="/" className="text-teal-400 hover:text-teal-300 transition-colors">← Back to Home</Link>
             </div>
+
+            {editor && (
+                <EditUserDialog
+                    editor={editor}
+                    onCancel={() => setEditor(null)}
+                    onSubmit={(change) => {
+                        setEditor(null);
+                        setSaveError(null);
+                        setPendingChange(change);
+                    }}
+                />
+            )}
+
+            {pendingChange && (
+                <Dialog title="Confirm Change" onClose={() => !isSaving && setPendingChange(null)}>
+                    <p className="text-slate-300 mb-2">{describeChange(pendingChange)}</p>
+                    <p className="text-sm text-slate-400 mb-4">Reason: {pendingChange.reason}</p>
+                    {saveError && <p className="text-sm text-red-400 mb-4">{saveError}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setPendingChange(null)} disabled={isSaving} className={`${dialogButtonClasses} text-slate-300 hover:bg-slate-700`}>Cancel</button>
+                        <button onClick={handleConfirm} disabled={isSaving} className={`${dialogButtonClasses} bg-pink-600 text-white hover:bg-pink-500`}>
+                            {isSaving ? 'Saving...' : 'Confirm'}
+                        </button>
+                    </div>
+                </Dialog>
+            )}
         </main>
     );
 };
 
-export default AdminPage;
\ No newline at end of file
+export default AdminPage;
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { useUserContext } from '../contexts/AuthContext';
+import { getCreditHistory, CreditHistory } from '../services/geminiService';
+
+const REASON_LABELS: Record<string, string> = {
+    opening_balance: 'Opening balance',
+    signup_bonus: 'Welcome credits',
+    generation: 'Image generation',
+    timeline: 'Retro timeline',
+    purchase: 'Credit purchase',
+    refund: 'Refund (failed generation)',
+    timeline_cancel: 'Refund (timeline cancelled)',
+    admin_grant: 'Granted by support',
+    admin_revoke: 'Revoked by support',
+    admin_set: 'Balance set by support',
+};
+
+const CreditHistoryPage = () => {
+    const { isAuthenticated, isAdmin, isLoading: isAuthLoading, getAccessTokenSilently } = useUserContext();
+    const [searchParams] = useSearchParams();
+    // Admins can inspect another user's ledger via `/credits?userId=...`.
+    const requestedUserId = searchParams.get('userId') || undefined;
+    const [history, setHistory] = useState<CreditHistory | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchHistory = async () => {
+            if (isAuthLoading) return; // Wait until authentication check is complete
+            if (!isAuthenticated) {
+                setIsLoading(false);
+                return;
+            }
+
+            try {
+                setIsLoading(true);
+                setError(null);
+                const token = await getAccessTokenSilently();
+                const data = await getCreditHistory(token, requestedUserId);
+                setHistory(data);
+            } catch (err: any) {
+                setError(err.message || 'Failed to fetch credit history.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchHistory();
+    }, [isAuthenticated, isAuthLoading, getAccessTokenSilently, requestedUserId]);
+
+    const renderContent = () => {
+        if (isLoading || isAuthLoading) {
+            return <p className="text-center text-slate-400 text-lg animate-pulse">Loading Credit History...</p>;
+        }
+
+        if (!isAuthenticated) {
+            return <Navigate to="/" replace />;
+        }
+
+        if (error) {
+            return <p className="text-center text-red-400">{error}</p>;
+        }
+
+        if (!history) {
+            return <p className="text-center text-slate-400">No credit history available.</p>;
+        }
+
+        const isBalanced = history.balance === history.ledgerBalance;
+
+        return (
+            <div className="w-full max-w-5xl flex flex-col gap-4">
+                <div className="flex flex-wrap justify-between items-center gap-4 bg-[#1e293b]/50 border border-slate-700 rounded-lg p-4">
+                    <div>
+                        <p className="text-sm text-slate-400">Account</p>
+                        <p className="font-mono text-cyan-300">{history.email}</p>
+                    </div>
+                    <div className="text-right">
+                        <p className="text-sm text-slate-400">Current Balance</p>
+                        <p className="font-mono text-2xl text-amber-300">{history.balance}</p>
+                        {isAdmin && !isBalanced && (
+                            <p className="text-xs text-red-400">Ledger total is {history.ledgerBalance}. Balance does not reconcile.</p>
+                        )}
+                    </div>
+                </div>
+
+                {history.transactions.length === 0 ? (
+                    <p className="text-center text-slate-400">No transactions recorded yet.</p>
+                ) : (
+                    <div className="bg-[#1e293b]/50 border border-slate-700 rounded-lg overflow-hidden shadow-2xl">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left">
+                                <thead className="bg-slate-800/50">
+                                    <tr>
+                                        <th className="p-4 font-semibold text-slate-300">Date</th>
+                                        <th className="p-4 font-semibold text-slate-300">Reason</th>
+                                        <th className="p-4 font-semibold text-slate-300 text-center">Change</th>
+                                        <th className="p-4 font-semibold text-slate-300 text-center">Balance</th>
+                                        <th className="p-4 font-semibold text-slate-300">Reference</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-800">
+                                    {history.transactions.map(tx => (
+                                        <tr key={tx.id} className="hover:bg-slate-800/40 transition-colors">
+                                            <td className="p-4 text-slate-400 whitespace-nowrap">{new Date(tx.created_at).toLocaleString()}</td>
+                                            <td className="p-4 text-slate-300">
+                                                {REASON_LABELS[tx.reason] || tx.reason}
+                                                {tx.note && <p className="text-xs text-slate-500">{tx.note}</p>}
+                                            </td>
+                                            <td className={`p-4 font-mono text-center ${tx.amount < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                                {tx.amount > 0 ? `+${tx.amount}` : tx.amount}
+                                            </td>
+                                            <td className="p-4 font-mono text-amber-300 text-center">{tx.balance_after}</td>
+                                            <td className="p-4 font-mono text-xs text-slate-500 whitespace-nowrap">
+                                                {tx.session_id && <p>Timeline {tx.session_id}</p>}
+                                                {tx.generation_id && <p>Generation {tx.generation_id}</p>}
+                                                {tx.purchase_id && <p>Purchase {tx.purchase_id}</p>}
+                                                {tx.admin_id && <p>Admin {tx.admin_id}</p>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <main className="bg-slate-900 text-slate-300 min-h-screen w-full flex flex-col items-center justify-center p-4">
+            <div className="text-center mb-8">
+                <h1 className="text-3xl font-bold text-white mb-2">Credit History</h1>
+                <p className="text-slate-400">Every change to the credit balance, newest first.</p>
+            </div>
+            {renderContent()}
+            <div className="mt-8 flex gap-6">
+                {requestedUserId && isAdmin && (
+                    <Link to="/admin" className="text-teal-400 hover:text-teal-300 transition-colors">← Back to Admin</Link>
+                )}
+                <Link to="/" className="text-teal-400 hover:text-teal-300 transition-colors">← Back to Home</Link>
+            </div>
+        </main>
+    );
+};
+
+export default CreditHistoryPage;
@@ -0,0 +1,362 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useUserContext } from '../contexts/AuthContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { listGenerations, fetchGenerationImage, deleteGeneration, GalleryItem, createShare, listShares, revokeShare, getShareUrl, SharedAlbumLink, getStyleRegistry, Region } from '../services/geminiService';
+import PolaroidCard from '../components/PolaroidCard';
+import { createAlbumPage } from '../lib/albumUtils';
+import { addWatermark } from '../lib/utils';
+
+interface GalleryGroup {
+    key: string;
+    sessionId: string | null;
+    createdAt: string;
+    items: GalleryItem[];
+}
+
+interface LoadedImage {
+    url?: string;
+    error?: string;
+}
+
+// A timeline's decades form one group. Generations outside a timeline (custom styles) are shown on their own.
+const groupBySession = (items: GalleryItem[]): GalleryGroup[] => {
+    const groups = new Map<string, GalleryGroup>();
+    for (const item of items) {
+        const key = item.session_id ?? item.id;
+        const group = groups.get(key) ?? { key, sessionId: item.session_id, createdAt: item.created_at, items: [] };
+        group.items.push(item);
+        if (item.created_at < group.createdAt) group.createdAt = item.created_at;
+        groups.set(key, group);
+    }
+    return [...groups.values()]
+        .map(group => ({ ...group, items: [...group.items].sort((a, b) => a.style_label.localeCompare(b.style_label) || a.created_at.localeCompare(b.created_at)) }))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const SHARE_EXPIRY_OPTIONS = [
+    { label: 'Never expires', days: undefined },
+    { label: 'Expires in 1 day', days: 1 },
+    { label: 'Expires in 7 days', days: 7 },
+    { label: 'Expires in 30 days', days: 30 },
+];
+
+const getShareStatus = (share: SharedAlbumLink): 'Active' | 'Expired' | 'Revoked' => {
+    if (share.revoked_at) return 'Revoked';
+    if (share.expires_at && new Date(share.expires_at) <= new Date()) return 'Expired';
+    return 'Active';
+};
+
+// Clipboard access can be denied; the link is shown on the page either way.
+const copyToClipboard = async (text: string): Promise<boolean> => {
+    try {
+        await navigator.clipboard.writeText(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const downloadDataUrl = (dataUrl: string, filename: string) => {
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+const GalleryPage = () => {
+    const { isAuthenticated, isLoading: isAuthLoading, getAccessTokenSilently } = useUserContext();
+    const { notify, notifyError, confirm } = useNotifications();
+    const [items, setItems] = useState<GalleryItem[]>([]);
+    const [images, setImages] = useState<Record<string, LoadedImage>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [albumInProgress, setAlbumInProgress] = useState<string | null>(null);
+    const [shares, setShares] = useState<SharedAlbumLink[]>([]);
+    const [shareExpiry, setShareExpiry] = useState<Record<string, number | undefined>>({});
+    const [shareInProgress, setShareInProgress] = useState<string | null>(null);
+    const [regions, setRegions] = useState<Region[]>([]);
+
+    useEffect(() => {
+        const fetchGallery = async () => {
+            if (isAuthLoading) return; // Wait until authentication check is complete
+            if (!isAuthenticated) {
+                setIsLoading(false);
+                return;
+            }
+
+            try {
+                setIsLoading(true);
+                setError(null);
+                const token = await getAccessTokenSilently();
+                const [generations, sharedLinks, registry] = await Promise.all([listGenerations(token), listShares(token), getStyleRegistry(token)]);
+                setItems(generations);
+                setShares(sharedLinks);
+                setRegions(registry.regions);
+            } catch (err: any) {
+                setError(err.message || 'Failed to fetch your gallery.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchGallery();
+    }, [isAuthenticated, isAuthLoading, getAccessTokenSilently]);
+
+    // Load the images one at a time, newest first, so a large gallery does not flood the server.
+    useEffect(() => {
+        let cancelled = false;
+        const loadImages = async () => {
+            const pending = items.filter(item => !images[item.id]);
+            if (pending.length === 0) return;
+            const token = await getAccessTokenSilently();
+            for (const item of pending) {
+                if (cancelled) return;
+                let loaded: LoadedImage;
+                try {
+                    loaded = { url: await addWatermark(await fetchGenerationImage(token, item.id)) };
+                } catch (err) {
+                    loaded = { error: err instanceof Error ? err.message : 'Failed to load image.' };
+                }
+                if (!cancelled) setImages(prev => ({ ...prev, [item.id]: loaded }));
+            }
+        };
+
+        loadImages();
+        return () => { cancelled = true; };
+        // `images` is deliberately not a dependency: it only records what has been loaded, and changes on every image.
+    }, [items, getAccessTokenSilently]);
+
+    const groups = useMemo(() => groupBySession(items), [items]);
+
+    const handleDelete = async (item: GalleryItem) => {
+        const confirmed = await confirm({
+            title: 'Delete image?',
+            message: `Delete your "${item.style_label}" image? This cannot be undone.`,
+            confirmLabel: 'Delete',
+            destructive: true,
+        });
+        if (!confirmed) return;
+        try {
+            const token = await getAccessTokenSilently();
+            await deleteGeneration(token, item.id);
+            setItems(prev => prev.filter(other => other.id !== item.id));
+        } catch (err) {
+            notifyError(err, { fallback: 'Failed to delete the image.' });
+        }
+    };
+
+    const getRegionName = (regionId: string | null) => regions.find(region => region.id === regionId)?.name;
+    // A timeline's eras are all set in the same region, if any.
+    const getGroupRegionName = (group: GalleryGroup) => getRegionName(group.items.find(item => item.region)?.region ?? null);
+    const getTimelineTitle = (group: GalleryGroup, title: string) => {
+        const regionName = getGroupRegionName(group);
+        return regionName ? `${title}: ${regionName}` : title;
+    };
+
+    const handleDownloadAlbum = async (group: GalleryGroup) => {
+        setAlbumInProgress(group.key);
+        try {
+            // Items are sorted oldest first within a style, so a regenerated decade replaces the earlier take.
+            const imageData = group.items.reduce((acc, item) => {
+                const url = images[item.id]?.url;
+                if (url) acc[item.style_label] = url;
+                return acc;
+            }, {} as Record<string, string>);
+
+            if (Object.keys(imageData).length === 0) {
+                notify({ kind: 'info', message: "These images have not loaded yet. Please try again in a moment." });
+                return;
+            }
+
+            downloadDataUrl(await createAlbumPage(imageData, getGroupRegionName(group)), 'retrosnap-album.jpg');
+        } catch (error) {
+            console.error("Failed to create or download album:", error);
+            notify({
+                kind: 'error',
+                message: "Sorry, there was an error creating your album.",
+                actions: [{ label: 'Try again', onClick: () => handleDownloadAlbum(group) }],
+            });
+        } finally {
+            setAlbumInProgress(null);
+        }
+    };
+
+    const copyLink = async (url: string) => {
+        notify(await copyToClipboard(url)
+            ? { kind: 'success', message: "Link copied! Anyone with this link can view your album." }
+            : { kind: 'info', message: "The link could not be copied. You can copy it from Shared Links." });
+    };
+
+    const handleShare = async (group: GalleryGroup) => {
+        setShareInProgress(group.key);
+        try {
+            const token = await getAccessTokenSilently();
+            // As in the album, the latest take of each style replaces the earlier ones.
+            const latestByStyle = new Map(group.items.map(item => [item.style_label, item.id]));
+            const share = await createShare(token, {
+                generationIds: [...latestByStyle.values()],
+                title: group.sessionId ? getTimelineTitle(group, 'My Retro Timeline') : group.items[0].style_label,
+                expiresInDays: shareExpiry[group.key],
+            });
+            setShares(prev => [share, ...prev]);
+            await copyLink(getShareUrl(share.slug));
+        } catch (err) {
+            notifyError(err, { fallback: 'Failed to share the album.', retry: { label: 'Try again', onClick: () => handleShare(group) } });
+        } finally {
+            setShareInProgress(null);
+        }
+    };
+
+    const handleRevoke = async (share: SharedAlbumLink) => {
+        const confirmed = await confirm({
+            title: 'Revoke link?',
+            message: "Anyone who has this link will no longer be able to see the album.",
+            confirmLabel: 'Revoke',
+            destructive: true,
+        });
+        if (!confirmed) return;
+        try {
+            const token = await getAccessTokenSilently();
+            await revokeShare(token, share.slug);
+            setShares(prev => prev.map(other => other.slug === share.slug ? { ...other, revoked_at: new Date().toISOString() } : other));
+        } catch (err) {
+            notifyError(err, { fallback: 'Failed to revoke the link.' });
+        }
+    };
+
+    const renderShares = () => (
+        <section className="w-full max-w-7xl bg-[#1e293b]/50 border border-slate-700 rounded-lg p-6">
+            <h2 className="text-xl font-bold text-white mb-4">Shared Links</h2>
+            <ul className="divide-y divide-slate-800">
+                {shares.map(share => {
+                    const status = getShareStatus(share);
+                    const url = getShareUrl(share.slug);
+                    return (
+                        <li key={share.slug} className="py-3 flex flex-wrap justify-between items-center gap-4">
+                            <div>
+                                <a href={url} target="_blank" rel="noopener noreferrer" className="font-mono text-cyan-300 hover:text-cyan-200">{url}</a>
+                                <p className="text-xs text-slate-500">
+                                    {share.title || 'Untitled'} · {share.generation_ids.length} images · Shared {new Date(share.created_at).toLocaleDateString()}
+                                    {share.expires_at && ` · ${status === 'Expired' ? 'Expired' : 'Expires'} ${new Date(share.expires_at).toLocaleDateString()}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-4">
+                                <span className={`text-sm ${status === 'Active' ? 'text-green-400' : 'text-slate-500'}`}>{status}</span>
+                                {status === 'Active' && (
+                                    <>
+                                        <button onClick={() => copyLink(url)} className="text-sm text-teal-400 hover:text-teal-300 transition-colors">Copy</button>
+                                        <button onClick={() => handleRevoke(share)} className="text-sm text-red-400 hover:text-red-300 transition-colors">Revoke</button>
+                                    </>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+
+    const renderContent = () => {
+        if (isLoading || isAuthLoading) {
+            return <p className="text-center text-slate-400 text-lg animate-pulse">Loading Gallery...</p>;
+        }
+
+        if (!isAuthenticated) {
+            return <Navigate to="/" replace />;
+        }
+
+        if (error) {
+            return <p className="text-center text-red-400">{error}</p>;
+        }
+
+        if (groups.length === 0) {
+            return (
+                <p className="text-center text-slate-400">
+                    Nothing here yet. <Link to="/" className="text-teal-400 hover:text-teal-300">Create your first timeline</Link>.
+                </p>
+            );
+        }
+
+        return (
+            <div className="w-full max-w-7xl flex flex-col gap-10">
+                {shares.length > 0 && renderShares()}
+                {groups.map(group => (
+                    <section key={group.key} className="bg-[#1e293b]/50 border border-slate-700 rounded-lg p-6">
+                        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                            <div>
+                                <h2 className="text-xl font-bold text-white">{group.sessionId ? getTimelineTitle(group, 'Retro Timeline') : 'Custom Style'}</h2>
+                                <p className="text-sm text-slate-400">{new Date(group.createdAt).toLocaleString()}</p>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-3">
+                                <select
+                                    value={shareExpiry[group.key] ?? ''}
+                                    onChange={(e) => setShareExpiry(prev => ({ ...prev, [group.key]: e.target.value ? Number(e.target.value) : undefined }))}
+                                    className="px-3 py-2 bg-slate-900 border border-slate-600 rounded text-slate-200 text-sm"
+                                    aria-label="Link expiry"
+                                >
+                                    {SHARE_EXPIRY_OPTIONS.map(option => (
+                                        <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => handleShare(group)}
+                                    disabled={shareInProgress !== null}
+                                    className="px-4 py-2 rounded font-semibold border border-teal-500 text-teal-300 hover:bg-teal-500/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {shareInProgress === group.key ? 'Sharing...' : 'Share'}
+                                </button>
+                                <button
+                                    onClick={() => handleDownloadAlbum(group)}
+                                    disabled={albumInProgress !== null}
+                                    className="px-4 py-2 rounded font-semibold bg-teal-500 text-slate-900 hover:bg-teal-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {albumInProgress === group.key ? 'Creating Album...' : 'Download Album'}
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap justify-center gap-8">
+                            {group.items.map(item => {
+                                const image = images[item.id];
+                                return (
+                                    <div key={item.id} className="flex flex-col items-center gap-2">
+                                        <PolaroidCard
+                                            caption={item.style_label}
+                                            captionNote={getRegionName(item.region)}
+                                            status={image?.url ? 'done' : image?.error ? 'error' : 'pending'}
+                                            imageUrl={image?.url}
+                                            error={image?.error}
+                                            onDownload={() => image?.url && downloadDataUrl(image.url, `retrosnap-${item.style_label.replace(/\s+/g, '-').toLowerCase()}.jpg`)}
+                                        />
+                                        <button onClick={() => handleDelete(item)} className="text-sm text-red-400 hover:text-red-300 transition-colors">
+                                            Delete
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </section>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <main className="bg-slate-900 text-slate-300 min-h-screen w-full flex flex-col items-center justify-center p-4">
+            <div className="text-center mb-8">
+                <h1 className="text-3xl font-bold text-white mb-2">My Gallery</h1>
+                <p className="text-slate-400">Your past timelines and styles. Download them again, rebuild an album, or share it.</p>
+            </div>
+            {renderContent()}
+            <Link to="/" className="mt-8 text-teal-400 hover:text-teal-300 transition-colors">← Back to Home</Link>
+        </main>
+    );
+};
+
+export default GalleryPage;
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AnimatePresence } from 'framer-motion';
+import { getSharedAlbum, getSharedImageUrl, PublicSharedAlbum } from '../services/geminiService';
+import PolaroidCard from '../components/PolaroidCard';
+import Slideshow from '../components/Slideshow';
+
+const primaryButtonClasses = "font-permanent-marker text-xl text-center text-stone-900 bg-teal-400 py-3 px-8 rounded-sm transform transition-all duration-200 hover:scale-105 hover:-rotate-2 shadow-[3px_3px_0px_#fb923c] hover:shadow-[4px_4px_0px_#f97316]";
+
+// A read-only view of an album someone has shared. Anyone with the link can see it, without logging in.
+const SharedAlbumPage = () => {
+    const { slug = '' } = useParams();
+    const [album, setAlbum] = useState<PublicSharedAlbum | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [slideshowStartIndex, setSlideshowStartIndex] = useState<number | null>(null);
+
+    useEffect(() => {
+        const fetchAlbum = async () => {
+            try {
+                setIsLoading(true);
+                setError(null);
+                setAlbum(await getSharedAlbum(slug));
+            } catch (err: any) {
+                setError(err.message || 'Failed to load the album.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchAlbum();
+    }, [slug]);
+
+    const images = (album?.items || []).map(item => ({ url: getSharedImageUrl(slug, item.id), caption: item.label }));
+
+    const handleDownload = (caption: string) => {
+        const image = images.find(candidate => candidate.caption === caption);
+        if (!image) return;
+        const link = document.createElement('a');
+        link.href = image.url;
+        link.download = `retrosnap-${caption.replace(/\s+/g, '-').toLowerCase()}.jpg`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const renderContent = () => {
+        if (isLoading) {
+            return <p className="text-center text-stone-500 text-lg animate-pulse">Loading Album...</p>;
+        }
+
+        if (error || !album || images.length === 0) {
+            return <p className="text-center text-stone-600 text-lg">{error || "This album is no longer available."}</p>;
+        }
+
+        return (
+            <div className="w-full max-w-7xl flex flex-wrap justify-center gap-8">
+                {images.map((image, index) => (
+                    <PolaroidCard
+                        key={image.url}
+                        caption={image.caption}
+                        status="done"
+                        imageUrl={image.url}
+                        onDownload={handleDownload}
+                        onCardClick={() => setSlideshowStartIndex(index)}
+                    />
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <main className="bg-[#FFF9E8] text-stone-800 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-16">
+            <div className="text-center mb-10">
+                <h1 className="text-4xl sm:text-5xl md:text-6xl font-caveat font-bold text-rainbow">RetroSnap</h1>
+                {album?.title && <p className="font-permanent-marker text-stone-600 text-xl mt-2">{album.title}</p>}
+            </div>
+            {renderContent()}
+            <Link to="/" className={`${primaryButtonClasses} mt-12`}>
+                Make Your Own
+            </Link>
+
+            <AnimatePresence>
+                {slideshowStartIndex !== null && (
+                    <Slideshow
+                        images={images}
+                        startIndex={slideshowStartIndex}
+                        onClose={() => setSlideshowStartIndex(null)}
+                        onDownload={handleDownload}
+                    />
+                )}
+            </AnimatePresence>
+        </main>
+    );
+};
+
+export default SharedAlbumPage;
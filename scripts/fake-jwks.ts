@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Local stand-in for Auth0's token endpoints, for testing access token verification offline.
+ *
+ * Generates an RSA signing key, serves it as a JWKS together with a /userinfo endpoint, and runs the
+ * api-proxy function against it with valid, expired, tampered and wrongly-scoped tokens.
+ *
+ * Usage (requires a local Postgres):
+ *   DATABASE_URL=postgres://localhost/retrosnap npm run auth:check
+ *   npm run auth:check -- --serve   # only run the stand-in and print a valid token
+ */
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, createSign, KeyObject } from 'crypto';
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+
+const AUDIENCE = 'https://api.retrosnap.com';
+const KEY_ID = 'fake-key-1';
+const TEST_USER = { sub: 'auth0|fake-jwks-user', email: 'jwks-user@example.com' };
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherPrivateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+let userInfoCalls = 0;
+
+const standIn = createServer((req, res) => {
+    if (req.url === '/.well-known/jwks.json') {
+        const jwk = publicKey.export({ format: 'jwk' });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ keys: [{ ...jwk, kid: KEY_ID, use: 'sig', alg: 'RS256' }] }));
+    }
+    if (req.url === '/userinfo') {
+        userInfoCalls++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify(TEST_USER));
+    }
+    res.writeHead(404);
+    res.end();
+});
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (issuer: string, claims: Record<string, any> = {}, options: { key?: KeyObject; kid?: string } = {}) => {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url({ alg: 'RS256', typ: 'JWT', kid: options.kid ?? KEY_ID });
+    const payload = base64url({ iss: issuer, sub: TEST_USER.sub, aud: [AUDIENCE, `${issuer}userinfo`], iat: now, exp: now + 3600, ...claims });
+    const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(options.key ?? privateKey, 'base64url');
+    return `${header}.${payload}.${signature}`;
+};
+
+const main = async () => {
+    await new Promise<void>(resolve => standIn.listen(Number(process.env.FAKE_JWKS_PORT) || 0, resolve));
+    const { port } = standIn.address() as AddressInfo;
+    const issuer = `http://localhost:${port}/`;
+    console.log(`Fake JWKS listening on ${issuer}.well-known/jwks.json`);
+
+    if (process.argv.includes('--serve')) {
+        console.log(`Set AUTH0_ISSUER=${issuer} for your local function, and send this token:`);
+        console.log(signToken(issuer, { exp: Math.floor(Date.now() / 1000) + 24 * 3600 }));
+        return;
+    }
+
+    if (!process.env.DATABASE_URL) {
+        throw new Error('Set DATABASE_URL to a local Postgres database to run the checks.');
+    }
+
+    // The function reads its configuration when the module is loaded, so set it up before importing.
+    Object.assign(process.env, {
+        CONTEXT: 'production',
+        AUTH0_DOMAIN: `localhost:${port}`,
+        AUTH0_ISSUER: issuer,
+        AUTH0_AUDIENCE: AUDIENCE,
+        API_KEY: process.env.API_KEY || 'fake-gemini-key',
+        ADMIN_EMAIL: process.env.ADMIN_EMAIL || 'admin@example.com',
+    });
+    const { handler } = await import('../netlify/functions/api-proxy');
+    const requestUserData = async (token: string) => {
+        const event = {
+            rawUrl: 'http://localhost/api-proxy/user-data',
+            rawQuery: '',
+            path: '/api-proxy/user-data',
+            httpMethod: 'GET',
+            headers: { authorization: `Bearer ${token}` },
+            multiValueHeaders: {},
+            queryStringParameters: null,
+            multiValueQueryStringParameters: null,
+            body: null,
+            isBase64Encoded: false,
+        } satisfies HandlerEvent;
+        const response = await handler(event, {} as any) as HandlerResponse;
+        return response.statusCode;
+    };
+
+    const validToken = signToken(issuer);
+    const [header, payload] = validToken.split('.');
+    const cases: [string, string, number][] = [
+        ['Valid token', validToken, 200],
+        ['Valid token again (cached user claims)', validToken, 200],
+        ['Expired token', signToken(issuer, { exp: Math.floor(Date.now() / 1000) - 3600 }), 401],
+        ['Wrong audience', signToken(issuer, { aud: 'https://example.com/other-api' }), 401],
+        ['Wrong issuer', signToken('https://evil.example.com/'), 401],
+        ['Signed by another key', signToken(issuer, {}, { key: otherPrivateKey }), 401],
+        ['Unknown key ID', signToken(issuer, {}, { kid: 'unknown-key' }), 401],
+        ['Tampered payload', `${header}.${base64url({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), sub: 'auth0|someone-else' })}.${validToken.split('.')[2]}`, 401],
+    ];
+
+    let failures = 0;
+    for (const [label, token, expected] of cases) {
+        const status = await requestUserData(token);
+        const ok = status === expected;
+        if (!ok) failures++;
+        console.log(`${ok ? 'PASS' : 'FAIL'} ${label}: ${status} (expected ${expected})`);
+    }
+    const userInfoOk = userInfoCalls === 1;
+    if (!userInfoOk) failures++;
+    console.log(`${userInfoOk ? 'PASS' : 'FAIL'} /userinfo was called ${userInfoCalls} time(s) (expected 1)`);
+
+    standIn.close();
+    if (failures > 0) throw new Error(`${failures} check(s) failed.`);
+    console.log('OK: access tokens are verified locally.');
+    process.exit(0);
+};
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
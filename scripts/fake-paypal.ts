@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Offline test harness for the PayPal purchase webhook.
+ *
+ * Starts a fake PayPal API (OAuth, webhook signature verification and order lookup) on a local port,
+ * points the api-proxy function at it, and replays a purchase the way PayPal does: the order event,
+ * a redelivery of the same event, the matching capture event and a forged event. It then checks that
+ * the payer was credited exactly once.
+ *
+ * Usage (requires a local Postgres):
+ *   DATABASE_URL=postgres://localhost/retrosnap npm run paypal:simulate
+ *   DATABASE_URL=... npm run paypal:simulate -- --serve   # only run the fake PayPal API
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac, randomUUID } from 'crypto';
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+
+const FAKE_WEBHOOK_ID = 'fake-webhook-id';
+const FAKE_SIGNING_SECRET = 'fake-paypal-signing-secret';
+const PAYER_EMAIL = 'dev@example.com'; // The user created by the dev token.
+const PACK_PRICE = '5.00';
+const PACK_CREDITS = 36;
+
+interface FakeOrder {
+    id: string;
+    payer: { email_address: string };
+    purchase_units: { amount: { value: string; currency_code: string } }[];
+}
+
+const orders = new Map<string, FakeOrder>();
+
+// The fake "signs" a transmission with an HMAC over the same fields PayPal's real signature covers.
+const signTransmission = (transmissionId: string, time: string, body: string) =>
+    createHmac('sha256', FAKE_SIGNING_SECRET).update(`${transmissionId}|${time}|${FAKE_WEBHOOK_ID}|${body}`).digest('base64');
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const fakePayPal = createServer(async (req, res) => {
+    const body = await readBody(req);
+    if (req.method === 'POST' && req.url === '/v1/oauth2/token') {
+        return sendJson(res, 200, { access_token: 'fake-access-token', token_type: 'Bearer', expires_in: 3600 });
+    }
+    if (req.headers.authorization !== 'Bearer fake-access-token') {
+        return sendJson(res, 401, { error: 'invalid_token' });
+    }
+    if (req.method === 'POST' && req.url === '/v1/notifications/verify-webhook-signature') {
+        const payload = JSON.parse(body);
+        const expected = signTransmission(payload.transmission_id, payload.transmission_time, JSON.stringify(payload.webhook_event));
+        const valid = payload.webhook_id === FAKE_WEBHOOK_ID && payload.transmission_sig === expected;
+        return sendJson(res, 200, { verification_status: valid ? 'SUCCESS' : 'FAILURE' });
+    }
+    const orderMatch = req.url?.match(/^\/v2\/checkout\/orders\/([^/?]+)$/);
+    if (req.method === 'GET' && orderMatch) {
+        const order = orders.get(decodeURIComponent(orderMatch[1]));
+        return order ? sendJson(res, 200, order) : sendJson(res, 404, { name: 'RESOURCE_NOT_FOUND' });
+    }
+    sendJson(res, 404, { name: 'NOT_FOUND' });
+});
+
+const buildWebhookEvent = (webhookEvent: object, options: { forge?: boolean } = {}): HandlerEvent => {
+    const body = JSON.stringify(webhookEvent);
+    const transmissionId = randomUUID();
+    const time = new Date().toISOString();
+    return {
+        rawUrl: 'http://localhost/api-proxy/paypal/webhook',
+        rawQuery: '',
+        path: '/api-proxy/paypal/webhook',
+        httpMethod: 'POST',
+        headers: {
+            'content-type': 'application/json',
+            'paypal-auth-algo': 'SHA256withRSA',
+            'paypal-cert-url': 'http://localhost/fake-cert.pem',
+            'paypal-transmission-id': transmissionId,
+            'paypal-transmission-time': time,
+            'paypal-transmission-sig': options.forge ? 'forged-signature' : signTransmission(transmissionId, time, body),
+        },
+        multiValueHeaders: {},
+        queryStringParameters: null,
+        multiValueQueryStringParameters: null,
+        body,
+        isBase64Encoded: false,
+    };
+};
+
+const main = async () => {
+    await new Promise<void>(resolve => fakePayPal.listen(Number(process.env.FAKE_PAYPAL_PORT) || 0, resolve));
+    const { port } = fakePayPal.address() as AddressInfo;
+    console.log(`Fake PayPal API listening on http://localhost:${port}`);
+
+    if (process.argv.includes('--serve')) {
+        console.log(`Set PAYPAL_API_BASE=http://localhost:${port} PAYPAL_WEBHOOK_ID=${FAKE_WEBHOOK_ID} for your local function.`);
+        return;
+    }
+
+    if (!process.env.DATABASE_URL) {
+        throw new Error('Set DATABASE_URL to a local Postgres database to run the simulation.');
+    }
+
+    // The handler reads its configuration when the module is loaded, so set it up before importing.
+    Object.assign(process.env, {
+        CONTEXT: 'dev',
+        AUTH0_DOMAIN: process.env.AUTH0_DOMAIN || 'fake.auth0.local',
+        API_KEY: process.env.API_KEY || 'fake-gemini-key',
+        ADMIN_EMAIL: process.env.ADMIN_EMAIL || 'admin@example.com',
+        PAYPAL_API_BASE: `http://localhost:${port}`,
+        PAYPAL_CLIENT_ID: 'fake-client-id',
+        PAYPAL_CLIENT_SECRET: 'fake-client-secret',
+        PAYPAL_WEBHOOK_ID: FAKE_WEBHOOK_ID,
+        PAYPAL_CREDIT_PACKS: `${PACK_PRICE}:${PACK_CREDITS}`,
+        PAYPAL_CURRENCY: 'CAD',
+    });
+    const { handler } = await import('../netlify/functions/api-proxy');
+    const invoke = async (event: HandlerEvent) => {
+        const response = await handler(event, {} as any) as HandlerResponse;
+        return { statusCode: response?.statusCode, body: response?.body ? JSON.parse(response.body) : null };
+    };
+    const getBalance = async () => {
+        const userData = await invoke({
+            ...buildWebhookEvent({}),
+            path: '/api-proxy/user-data',
+            httpMethod: 'GET',
+            headers: { authorization: 'Bearer dev-token' },
+            body: null,
+        });
+        return userData.body.credits as number;
+    };
+
+    const startingBalance = await getBalance();
+    console.log(`Starting balance for ${PAYER_EMAIL}: ${startingBalance}`);
+
+    const orderId = `FAKE-ORDER-${randomUUID()}`;
+    const order: FakeOrder = {
+        id: orderId,
+        payer: { email_address: PAYER_EMAIL },
+        purchase_units: [{ amount: { value: PACK_PRICE, currency_code: 'CAD' } }],
+    };
+    orders.set(orderId, order);
+
+    const orderEvent = { id: `WH-${randomUUID()}`, event_type: 'CHECKOUT.ORDER.COMPLETED', resource: order };
+    const captureEvent = {
+        id: `WH-${randomUUID()}`,
+        event_type: 'PAYMENT.CAPTURE.COMPLETED',
+        resource: { id: `CAPTURE-${randomUUID()}`, supplementary_data: { related_ids: { order_id: orderId } } },
+    };
+
+    const steps: [string, HandlerEvent][] = [
+        ['Forged order event', buildWebhookEvent(orderEvent, { forge: true })],
+        ['Order completed', buildWebhookEvent(orderEvent)],
+        ['Order completed (redelivered)', buildWebhookEvent(orderEvent)],
+        ['Payment captured', buildWebhookEvent(captureEvent)],
+    ];
+    for (const [label, event] of steps) {
+        const result = await invoke(event);
+        console.log(`${label}: ${result.statusCode} ${JSON.stringify(result.body)}`);
+    }
+
+    const finalBalance = await getBalance();
+    const granted = finalBalance - startingBalance;
+    console.log(`Final balance: ${finalBalance} (granted ${granted})`);
+    if (granted !== PACK_CREDITS) {
+        throw new Error(`Expected exactly ${PACK_CREDITS} credits to be granted, but ${granted} were.`);
+    }
+    console.log('OK: the order was credited exactly once.');
+    fakePayPal.close();
+    process.exit(0);
+};
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Applies pending database migrations outside of the serverless function, e.g. against a local Postgres.
+ *
+ * Usage:
+ *   DATABASE_URL=postgres://localhost/retrosnap npm run db:migrate
+ *   DATABASE_URL=... npm run db:migrate -- --status   # list applied and pending migrations
+ */
+import { Pool } from 'pg';
+import { runMigrations, getMigrationStatus } from '../netlify/lib/migrations';
+
+const main = async () => {
+    const databaseUrl = process.env.NETLIFY_DATABASE_URL || process.env.DATABASE_URL;
+    if (!databaseUrl) {
+        throw new Error('Set DATABASE_URL (or NETLIFY_DATABASE_URL) to the database you want to migrate.');
+    }
+
+    const pool = new Pool({ connectionString: databaseUrl });
+    try {
+        if (process.argv.includes('--status')) {
+            for (const { version, name, appliedAt } of await getMigrationStatus(pool)) {
+                console.log(`${String(version).padStart(4, '0')} ${name.padEnd(32)} ${appliedAt ? `applied ${appliedAt.toISOString()}` : 'pending'}`);
+            }
+            return;
+        }
+
+        const applied = await runMigrations(pool);
+        console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Database is already up to date.');
+    } finally {
+        await pool.end();
+    }
+};
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
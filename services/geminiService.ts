@@ -3,25 +3,111 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-// --- Minimal Type Definitions to avoid @google/genai runtime dependencies ---
-interface Part {
-    text?: string;
-    inlineData?: {
-        mimeType: string;
-        data: string;
-    };
+export interface GeneratedImageResult {
+    imageUrl: string; // A data URL of the generated image.
+    generationId?: string;
+    styleVersion?: number; // The version of the style's prompt that produced it. Send it again to regenerate alike.
+}
+
+// --- Errors ---
+// Callers branch on the class of an error, never on its message, which is written for the user and may change.
+
+/**
+ * An error from the API. The subclasses below are the failures callers handle differently.
+ * @param statusCode The HTTP status of the response, if the server answered.
+ */
+export class ApiError extends Error {
+    constructor(message: string, public statusCode?: number) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+/** The user's login has expired or was revoked. They need to log in again. */
+export class AuthExpiredError extends ApiError {
+    constructor(message = "Authentication failed. Please log out and log back in.") {
+        super(message, 401);
+        this.name = 'AuthExpiredError';
+    }
+}
+
+/** The user has no credits left for this generation. */
+export class OutOfCreditsError extends ApiError {
+    constructor(message = "You are out of credits.") {
+        super(message, 402);
+        this.name = 'OutOfCreditsError';
+    }
+}
+
+/** The server is limiting the user's requests. */
+export class RateLimitedError extends ApiError {
+    constructor(message: string, public retryAfterMs: number) {
+        super(message, 429);
+        this.name = 'RateLimitedError';
+    }
+}
+
+/** The AI model's safety filters blocked the prompt or the image (Gemini's `promptFeedback` or `finishReason`). */
+export class SafetyBlockedError extends ApiError {
+    constructor(message: string, statusCode?: number) {
+        super(message, statusCode);
+        this.name = 'SafetyBlockedError';
+    }
 }
 
-interface Content {
-    parts: Part[];
+/** The AI model failed, timed out, or its image could not be saved. Trying again later may work. */
+export class UpstreamUnavailableError extends ApiError {
+    constructor(message: string, statusCode?: number) {
+        super(message, statusCode);
+        this.name = 'UpstreamUnavailableError';
+    }
 }
 
-interface Candidate {
-    content: Content;
+/** The photo cannot be used: an unsupported type, too large, or unreadable. */
+export class InvalidImageError extends ApiError {
+    constructor(message: string, statusCode?: number) {
+        super(message, statusCode);
+        this.name = 'InvalidImageError';
+    }
 }
 
-interface MinimalGenerateContentResponse {
-    candidates?: Candidate[];
+/** The server could not be reached, or did not answer in time. */
+export class NetworkError extends ApiError {
+    constructor(message = "Could not reach the server. Please check your connection and try again.") {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Maps a failed response to the error class for it.
+ * @param status The HTTP status.
+ * @param message The message for the user.
+ * @param reason The `reason` of the server's error response, if it gave one (see FAILURE_MESSAGES on the server).
+ * @param retryAfterMs How long the server asked to wait, for a 429.
+ */
+function toApiError(status: number, message: string, reason?: string, retryAfterMs = 5000): ApiError {
+    if (status === 401) return new AuthExpiredError();
+    if (status === 402) return new OutOfCreditsError();
+    if (status === 429) return new RateLimitedError(message, retryAfterMs);
+    if (reason === 'safety_blocked') return new SafetyBlockedError(message, status);
+    if (reason === 'invalid_image' || status === 413) return new InvalidImageError(message, status);
+    if (reason === 'upstream_error' || reason === 'timeout' || reason === 'storage_error' || status >= 500) {
+        return new UpstreamUnavailableError(message, status);
+    }
+    return new ApiError(message, status);
+}
+
+/**
+ * Sends a request, reporting a failure to connect as a NetworkError.
+ */
+async function fetchOrThrow(input: string, init?: RequestInit): Promise<Response> {
+    try {
+        return await fetch(input, init);
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') throw error;
+        throw new NetworkError();
+    }
 }
 
 // --- API Service for stateless checks and admin actions ---
@@ -34,7 +120,7 @@ interface MinimalGenerateContentResponse {
  * @returns The JSON response from the API.
  */
 async function apiFetch(endpoint: string, token: string, options: RequestInit = {}) {
-    const response = await fetch(`/api-proxy${endpoint}`, {
+    const response = await fetchOrThrow(`/api-proxy${endpoint}`, {
         ...options,
         headers: {
             'Content-Type': 'application/json',
@@ -46,22 +132,20 @@ async function apiFetch(endpoint: string, token: string, options: RequestInit =
     const responseBodyText = await response.text();
     if (!response.ok) {
         let errorMessage = `API Error (Status: ${response.status})`;
+        let reason: string | undefined;
         try {
             const errorJson = JSON.parse(responseBodyText);
             // Construct a more detailed error message
             const mainError = errorJson.error || errorJson.message || "An unknown error occurred on the server.";
             const techDetails = errorJson.details ? `\nTechnical Details: ${errorJson.details}` : '';
             errorMessage = `${mainError}${techDetails}`;
+            reason = errorJson.reason;
         } catch (e) {
             // If parsing fails, just use the raw text
             errorMessage = `Status ${response.status}: ${responseBodyText}`;
         }
-        
-        if (response.status === 401) throw new Error("Authentication failed. Please log out and log back in.");
-        
-        if (response.status === 402) throw new Error("You are out of credits.");
 
-        throw new Error(`API request failed: ${errorMessage}`);
+        throw toApiError(response.status, `API request failed: ${errorMessage}`, reason, parseRetryAfter(response.headers.get('Retry-After'), 5000));
     }
 
     // Return nothing if response is empty
@@ -93,6 +177,296 @@ export async function getAllUsers(token: string): Promise<any[]> {
 }
 
 
+export interface TimelineSession {
+    sessionId: string;
+    decadeCount: number;
+    creditsCharged: number;
+    credits: number; // The user's balance after paying for the session.
+    expiresAt: string;
+    concurrency: number; // How many decades to generate at once, as configured for the deployment.
+}
+
+/**
+ * Opens a paid timeline session. The server charges for the whole timeline up front,
+ * and decade generations sent with the session ID are not charged again.
+ * @param token The user's JWT.
+ * @param decadeCount The number of decades the timeline will generate.
+ * @returns A promise that resolves to the session and the user's new balance.
+ */
+export async function openTimelineSession(token: string, decadeCount: number): Promise<TimelineSession> {
+    return apiFetch('/timeline-sessions', token, {
+        method: 'POST',
+        body: JSON.stringify({ decadeCount }),
+    });
+}
+
+
+export interface TimelineQuote {
+    decadeCount: number;
+    credits: number; // What opening a session for `decadeCount` decades would charge.
+}
+
+/**
+ * Asks the server what a timeline of `decadeCount` decades would cost, without charging anything.
+ * @param token The user's JWT.
+ * @param decadeCount The number of decades the timeline would generate.
+ * @returns A promise that resolves to the price.
+ */
+export async function quoteTimeline(token: string, decadeCount: number): Promise<TimelineQuote> {
+    return apiFetch(`/timeline-sessions/quote?decadeCount=${decadeCount}`, token);
+}
+
+
+export interface TimelineCancellation {
+    sessionId: string;
+    startedDecades: number; // Decades that were running or finished, and stay charged.
+    cancelledDecades: number; // Queued decades the server will not run.
+    creditsRefunded: number;
+    credits: number; // The user's balance after the refund.
+}
+
+/**
+ * Cancels a timeline session. Its queued decades are never run, and decades that had not started are refunded.
+ * Decade generations sent with the session ID afterwards are rejected.
+ * @param token The user's JWT.
+ * @param sessionId The timeline session to cancel.
+ * @returns A promise that resolves to what was cancelled and refunded.
+ */
+export async function cancelTimelineSession(token: string, sessionId: string): Promise<TimelineCancellation> {
+    return apiFetch(`/timeline-sessions/${encodeURIComponent(sessionId)}/cancel`, token, { method: 'POST' });
+}
+
+
+export type AdminCreditAction = 'grant' | 'revoke' | 'set';
+
+export interface AdminAuditEntry {
+    id: string;
+    admin_email: string;
+    action: string;
+    target_user_id: string;
+    target_email: string;
+    reason: string;
+    details: Record<string, any>;
+    created_at: string;
+}
+
+/**
+ * Grants, revokes or sets a user's credits. The change is recorded in the credit ledger and the audit trail.
+ * @param token The admin user's JWT.
+ * @param userId The ID of the user to update.
+ * @param change The credit action, amount and the reason for the change.
+ * @returns A promise that resolves to the updated user record.
+ */
+export async function adjustUserCredits(token: string, userId: string, change: { action: AdminCreditAction; amount: number; reason: string }): Promise<{ id: string; email: string; credits: number }> {
+    return apiFetch(`/admin/users/${encodeURIComponent(userId)}/credits`, token, {
+        method: 'POST',
+        body: JSON.stringify(change),
+    });
+}
+
+
+/**
+ * Corrects a user's email address. The change is recorded in the audit trail.
+ * @param token The admin user's JWT.
+ * @param userId The ID of the user to update.
+ * @param update The new email address and the reason for the change.
+ * @returns A promise that resolves to the updated user record.
+ */
+export async function updateUserEmail(token: string, userId: string, update: { email: string; reason: string }): Promise<{ id: string; email: string; credits: number }> {
+    return apiFetch(`/admin/users/${encodeURIComponent(userId)}`, token, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+    });
+}
+
+
+/**
+ * Fetches the most recent admin changes for the admin panel.
+ * @param token The admin user's JWT.
+ * @returns A promise that resolves to an array of audit entries, newest first.
+ */
+export async function getAdminAuditLog(token: string): Promise<AdminAuditEntry[]> {
+    return apiFetch('/admin/audit-log', token);
+}
+
+
+export interface CreditTransaction {
+    id: string;
+    amount: number;
+    balance_after: number;
+    reason: string;
+    generation_id: string | null;
+    session_id: string | null;
+    purchase_id: string | null;
+    admin_id: string | null;
+    note: string | null;
+    created_at: string;
+}
+
+export interface CreditHistory {
+    userId: string;
+    email: string;
+    balance: number;
+    ledgerBalance: number;
+    transactions: CreditTransaction[];
+}
+
+/**
+ * Fetches the credit ledger for the current user, or for any user when called by an admin.
+ * @param token The user's JWT.
+ * @param userId Optional user ID to inspect (admins only).
+ * @returns A promise that resolves to the user's balance and most recent transactions.
+ */
+export async function getCreditHistory(token: string, userId?: string): Promise<CreditHistory> {
+    const query = userId ? `?userId=${encodeURIComponent(userId)}` : '';
+    return apiFetch(`/credits/history${query}`, token);
+}
+
+
+export interface GalleryItem {
+    id: string;
+    style_id: string;
+    style_label: string; // e.g. '1950s', a preset name, or the user's custom description.
+    style_version: number; // The version of the style's prompt it was made with.
+    region: string | null; // The region an era was set in, if any.
+    session_id: string | null; // The timeline session the generation belongs to, if any.
+    mime_type: string;
+    created_at: string;
+}
+
+/**
+ * Fetches the user's stored generations for the gallery.
+ * @param token The user's JWT.
+ * @returns A promise that resolves to an array of generations, newest first.
+ */
+export async function listGenerations(token: string): Promise<GalleryItem[]> {
+    return apiFetch('/generations', token);
+}
+
+
+/**
+ * Downloads the stored original of a generation.
+ * Waits once for the server's `Retry-After` when a large gallery runs into the rate limit.
+ * @param token The user's JWT.
+ * @param generationId The ID of the generation.
+ * @param signal Aborts the download.
+ * @returns A promise that resolves to a data URL of the image.
+ */
+export async function fetchGenerationImage(token: string, generationId: string, signal?: AbortSignal): Promise<string> {
+    const url = `/api-proxy/generations/${encodeURIComponent(generationId)}/image`;
+    const headers = { 'Authorization': `Bearer ${token}` };
+    let response = await fetchOrThrow(url, { headers, signal });
+    if (response.status === 429) {
+        await new Promise(resolve => setTimeout(resolve, parseRetryAfter(response.headers.get('Retry-After'), 5000)));
+        response = await fetchOrThrow(url, { headers, signal });
+    }
+    if (!response.ok) {
+        throw toApiError(response.status, `Failed to load image (Status: ${response.status}).`, undefined, parseRetryAfter(response.headers.get('Retry-After'), 5000));
+    }
+
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error("Failed to read image."));
+        reader.readAsDataURL(blob);
+    });
+}
+
+
+/**
+ * Deletes a generation from the user's gallery.
+ * @param token The user's JWT.
+ * @param generationId The ID of the generation to delete.
+ */
+export async function deleteGeneration(token: string, generationId: string): Promise<void> {
+    await apiFetch(`/generations/${encodeURIComponent(generationId)}`, token, { method: 'DELETE' });
+}
+
+
+export interface SharedAlbumLink {
+    slug: string;
+    title: string | null;
+    generation_ids: string[];
+    created_at: string;
+    expires_at: string | null;
+    revoked_at?: string | null;
+}
+
+/**
+ * Publishes a read-only album of the user's generations.
+ * @param token The user's JWT.
+ * @param album The generations to share (in display order), an optional title, and an optional expiry in days.
+ * @returns A promise that resolves to the new link. Use `getShareUrl` for its address.
+ */
+export async function createShare(token: string, album: { generationIds: string[]; title?: string; expiresInDays?: number }): Promise<SharedAlbumLink> {
+    return apiFetch('/shares', token, {
+        method: 'POST',
+        body: JSON.stringify(album),
+    });
+}
+
+
+/**
+ * Fetches the user's shared album links, including revoked and expired ones.
+ * @param token The user's JWT.
+ * @returns A promise that resolves to an array of links, newest first.
+ */
+export async function listShares(token: string): Promise<SharedAlbumLink[]> {
+    return apiFetch('/shares', token);
+}
+
+
+/**
+ * Revokes a shared album link. The album stops being visible immediately.
+ * @param token The user's JWT.
+ * @param slug The slug of the link to revoke.
+ */
+export async function revokeShare(token: string, slug: string): Promise<void> {
+    await apiFetch(`/shares/${encodeURIComponent(slug)}`, token, { method: 'DELETE' });
+}
+
+
+/**
+ * The public address of a shared album.
+ * @param slug The album's slug.
+ */
+export function getShareUrl(slug: string): string {
+    return `${window.location.origin}/s/${slug}`;
+}
+
+
+export interface PublicSharedAlbum {
+    slug: string;
+    title: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+    items: { id: string; label: string }[];
+}
+
+/**
+ * Fetches a shared album. This does not require the viewer to be logged in.
+ * @param slug The album's slug.
+ * @returns A promise that resolves to the album, with image URLs available from `getSharedImageUrl`.
+ */
+export async function getSharedAlbum(slug: string): Promise<PublicSharedAlbum> {
+    const response = await fetch(`/api-proxy/public/shares/${encodeURIComponent(slug)}`);
+    if (response.status === 404) throw new Error("This album is no longer available.");
+    if (!response.ok) throw new Error(`Failed to load the album (Status: ${response.status}).`);
+    return response.json();
+}
+
+
+/**
+ * The public URL of an image in a shared album.
+ * @param slug The album's slug.
+ * @param generationId The ID of the image.
+ */
+export function getSharedImageUrl(slug: string, generationId: string): string {
+    return `/api-proxy/public/shares/${encodeURIComponent(slug)}/images/${encodeURIComponent(generationId)}`;
+}
+
+
 /**
  * Fetches debug information from the backend.
  * @param token The user's JWT.
@@ -106,136 +480,406 @@ export async function getDebugInfo(token: string): Promise<any> {
 // --- Gemini API Service ---
 
 /**
- * Processes the API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
+ * Converts a `Retry-After` header (delay in seconds, or an HTTP date) into milliseconds.
+ * @param header The header value, if the response had one.
+ * @param fallbackMs The delay to use when the header is missing or unreadable.
+ * @returns The number of milliseconds to wait before retrying.
  */
-function processApiResponse(response: MinimalGenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+function parseRetryAfter(header: string | null, fallbackMs: number): number {
+    if (!header) return fallbackMs;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? fallbackMs : Math.max(0, date - Date.now());
+}
 
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
-    }
+/**
+ * A style from the server's registry: `decade:<decade>` (e.g. `decade:1950s`), `preset:<name>`,
+ * or `custom` with a short description. The server turns it into the final prompt.
+ */
+export interface StyleSelection {
+    styleId: string;
+    customText?: string;
+    styleVersion?: number; // The prompt version to use, e.g. to regenerate a result alike. The current one by default.
+    region?: string; // The ID of the region an era is set in, e.g. 'quebec'. Eras only.
+}
 
-    const textPartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.text);
-    const textResponse = textPartFromResponse?.text;
-    
-    console.error("API did not return an image. Full Response:", response);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+export type StyleCategory = 'era' | 'future-era' | 'art' | 'custom';
+
+export interface StylePreset {
+    id: string; // The `styleId` to send.
+    displayName: string;
+    category: StyleCategory;
+    version: number; // The current version of its prompt.
+    cost: number; // Credits per generation outside a timeline.
+    thumbnail: string | null; // The URL of an example result, if there is one.
+}
+
+export interface Region {
+    id: string; // The `region` to send.
+    name: string; // As shown on captions, e.g. 'Québec'.
+    group: 'canada' | 'world';
+}
+
+export interface StyleRegistry {
+    styles: StylePreset[]; // Eras first.
+    regions: Region[]; // Canadian regions first.
+}
+
+/**
+ * Fetches the style presets the server offers, and the regions eras can be set in. Their prompts stay on the server.
+ * @param token The user's JWT.
+ * @returns A promise that resolves to the registry.
+ */
+export async function getStyleRegistry(token: string): Promise<StyleRegistry> {
+    return apiFetch('/styles', token);
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface GenerationJob {
+    id: string;
+    status: GenerationJobStatus;
+    generationId: string; // The ID the result is stored under, e.g. for `fetchGenerationImage`.
+    styleId: string;
+    styleLabel: string;
+    styleVersion: number;
+    region: string | null;
+    sessionId: string | null;
+    failure: { statusCode: number; error: string; reason?: string; refunded?: boolean; details?: string } | null;
+    createdAt: string;
+    startedAt: string | null;
+    completedAt: string | null;
 }
 
 /**
- * A wrapper for the Gemini API call that uses `fetch` directly.
- * Includes a timeout and retry mechanism.
- * @param imagePart The image part of the request payload.
- * @param textPart The text part of the request payload.
+ * Queues a generation job on the server, using `fetch` directly.
+ * Includes a timeout and retry mechanism, and waits out rate limits as instructed by the server.
+ * Every attempt carries the same idempotency key, so a retry of a request the server already received is not charged again.
+ * @param image The source image, base64-encoded.
+ * @param style The style to apply.
  * @param token The user's JWT for authentication.
- * @returns The GenerateContentResponse from the API.
+ * @param sessionId Optional timeline session that covers the cost of this generation.
+ * @param signal Aborts the request, and any retries.
+ * @param idempotencyKey The key to send, if the caller keeps it to resend the request later. A new one by default.
+ * @returns The queued job. Use `waitForGenerationJob` for its result.
  */
-async function callApiWithFetchAndRetry(imagePart: object, textPart: object, token: string): Promise<MinimalGenerateContentResponse> {
+async function callApiWithFetchAndRetry(image: { mimeType: string; data: string }, style: StyleSelection, token: string, sessionId?: string, signal?: AbortSignal, idempotencyKey: string = crypto.randomUUID()): Promise<GenerationJob> {
     const maxRetries = 3;
     const initialDelay = 1000;
     const requestTimeout = 30000; // 30 seconds
+    const maxRateLimitWait = 60000; // Longer waits are reported to the user instead.
     
-    const proxyUrl = '/api-proxy/v1beta/models/gemini-2.5-flash-image-preview:generateContent';
+    // The server decides which model handles the request, and runs it in the background.
+    const proxyUrl = '/api-proxy/jobs';
 
-    const body = {
-        contents: [{ parts: [imagePart, textPart] }],
-    };
+    const body = { ...style, image };
 
     const bodyString = JSON.stringify(body);
+    // One key per logical generation. The server replays its outcome for duplicates.
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
+        // Removed once the attempt is over, so listeners do not pile up on the caller's signal across retries.
+        const abortAttempt = () => controller.abort();
+        signal?.addEventListener('abort', abortAttempt, { once: true });
         try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
-
             const response = await fetch(proxyUrl, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     // Send the user's JWT for authentication with the Netlify function
                     'Authorization': `Bearer ${token}`,
+                    'Idempotency-Key': idempotencyKey,
+                    ...(sessionId ? { 'X-Timeline-Session': sessionId } : {}),
                 },
                 body: bodyString,
                 signal: controller.signal,
             });
 
-            clearTimeout(timeoutId);
-
             const responseBodyText = await response.text();
 
             if (!response.ok) {
                 let errorDetails = `Status code: ${response.status}`;
+                let reason: string | undefined;
                 try {
                     const errorJson = JSON.parse(responseBodyText);
                     errorDetails = (errorJson.error || errorJson.message || JSON.stringify(errorJson));
+                    reason = errorJson.reason;
                 } catch (e) {
                     errorDetails = `${errorDetails}, Body: ${responseBodyText}`;
                 }
 
-                // Handle specific, actionable errors first.
-                if (response.status === 401) {
-                    throw new Error("Authentication failed. Please log out and log back in.");
-                }
-                
-                if (response.status === 402) {
-                    throw new Error("You are out of credits.");
+                // Rate-limited requests are not charged, so it is safe to wait and send the same request again.
+                if (response.status === 429) {
+                    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'), initialDelay * Math.pow(2, attempt - 1));
+                    if (attempt < maxRetries && retryAfterMs <= maxRateLimitWait) {
+                        await new Promise(resolve => setTimeout(resolve, retryAfterMs));
+                        continue;
+                    }
+                    throw new RateLimitedError(`Too many requests. Please wait ${Math.ceil(retryAfterMs / 1000)} seconds and try again.`, retryAfterMs);
                 }
 
-                throw new Error(`API request failed: ${errorDetails}`);
+                throw toApiError(response.status, `API request failed: ${errorDetails}`, reason);
             }
             
-            const responseJson = JSON.parse(responseBodyText);
-            return responseJson as MinimalGenerateContentResponse;
+            return JSON.parse(responseBodyText) as GenerationJob;
 
         } catch (error) {
-            console.error(`Error on fetch (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+            if (signal?.aborted) throw error;
             const isTimeout = error instanceof Error && error.name === 'AbortError';
             const isNetworkError = error instanceof TypeError;
-            const isServerError = errorMessage.includes('Status code: 5');
+            const isServerError = error instanceof UpstreamUnavailableError;
 
             if ((isTimeout || isNetworkError || isServerError) && attempt < maxRetries) {
                 const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Retrying in ${delay}ms...`);
                 await new Promise(resolve => setTimeout(resolve, delay));
                 continue;
             }
+            console.error(`Generation request failed (attempt ${attempt}/${maxRetries}):`, error);
+            if (isTimeout) throw new NetworkError("The server did not respond in time. Please try again.");
+            if (isNetworkError) throw new NetworkError();
             throw error;
+        } finally {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', abortAttempt);
+        }
+    }
+    throw new NetworkError("API call failed after all retries.");
+}
+
+
+/**
+ * Maps the failure of a generation job to the error class for it.
+ * @param failure The job's failure, with the `reason` the server classified it with (e.g. from Gemini's `finishReason`).
+ */
+function toJobError(failure: GenerationJob['failure']): ApiError {
+    if (!failure) return new ApiError("The image could not be generated.");
+    // Gemini rejects a request it cannot read with a 400. The prompt comes from the server's catalog, so it is the photo.
+    if (failure.statusCode === 400 && !failure.reason) return new InvalidImageError(failure.error, failure.statusCode);
+    return toApiError(failure.statusCode, failure.error, failure.reason);
+}
+
+
+/**
+ * Fetches the current state of a generation job.
+ * @param token The user's JWT.
+ * @param jobId The ID of the job.
+ * @returns A promise that resolves to the job.
+ */
+export async function getGenerationJob(token: string, jobId: string): Promise<GenerationJob> {
+    return apiFetch(`/jobs/${encodeURIComponent(jobId)}`, token);
+}
+
+
+/**
+ * Polls a generation job until it has succeeded or failed.
+ * Failed polls are retried, since they do not affect the job; only an expired login ends the wait early.
+ * @param token The user's JWT.
+ * @param jobId The ID of the job.
+ * @param options.pollInterval Milliseconds between polls.
+ * @param options.signal Stops polling when aborted.
+ * @returns A promise that resolves to the finished job.
+ */
+export async function waitForGenerationJob(token: string, jobId: string, options: { pollInterval?: number; signal?: AbortSignal } = {}): Promise<GenerationJob> {
+    const { pollInterval = 2000, signal } = options;
+    // Longer than the server's own limit, after which it fails (and refunds) the job itself.
+    const maxWait = 5 * 60 * 1000;
+    const deadline = Date.now() + maxWait;
+
+    while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        if (signal?.aborted) throw new Error("Stopped waiting for the job.");
+        try {
+            const job = await getGenerationJob(token, jobId);
+            if (job.status === 'succeeded' || job.status === 'failed') return job;
+        } catch (error) {
+            if (error instanceof AuthExpiredError) throw error;
+            console.warn(`Failed to check job ${jobId}. Retrying...`, error);
+        }
+    }
+    throw new UpstreamUnavailableError("The image is taking too long. It will appear in My Gallery if it finishes.");
+}
+
+
+export type TimelineDecadeStatus = 'queued' | 'generating' | 'done' | 'failed';
+
+export interface TimelineDecadeEvent {
+    jobId: string;
+    styleId: string;
+    label: string; // The decade, e.g. '1950s'.
+    status: TimelineDecadeStatus;
+    generationId: string;
+    failure: GenerationJob['failure'];
+}
+
+/**
+ * Live progress of a timeline session. See `watchTimelineSession`.
+ */
+export interface TimelineProgress {
+    /**
+     * Waits until a job of the session has succeeded or failed, as reported by the stream.
+     * Polls slowly as well, in case the stream is unavailable.
+     */
+    waitForJob(token: string, jobId: string, signal?: AbortSignal): Promise<Pick<GenerationJob, 'status' | 'generationId' | 'failure'>>;
+    /** Stops listening. */
+    close(): void;
+}
+
+/**
+ * Reads a Server-Sent Events stream, calling `onMessage` for each event until the stream ends.
+ */
+async function readEventStream(body: ReadableStream<Uint8Array>, onMessage: (type: string, data: string) => void): Promise<void> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value.replace(/\r\n?/g, '\n');
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            let type = 'message';
+            const data: string[] = [];
+            for (const line of block.split('\n')) {
+                if (line.startsWith(':')) continue; // A comment.
+                const separator = line.indexOf(':');
+                const field = separator >= 0 ? line.slice(0, separator) : line;
+                const value = separator >= 0 ? line.slice(separator + 1).replace(/^ /, '') : '';
+                if (field === 'event') type = value;
+                if (field === 'data') data.push(value);
+            }
+            if (data.length > 0) onMessage(type, data.join('\n'));
         }
     }
-    throw new Error("API call failed after all retries.");
+}
+
+/**
+ * Streams the status of every decade in a timeline session (queued, generating, done or failed) as it changes.
+ * The server ends each stream after a few seconds, and it is reopened straight away; failed connections are retried
+ * with a growing delay. Each new stream starts with the current state, so nothing is missed while reconnecting.
+ * The stream is read with `fetch` rather than `EventSource`, which cannot send the Authorization header.
+ * @param getToken Returns a current JWT for each connection, so a long timeline survives a token refresh.
+ * @param sessionId The timeline session to watch.
+ * @param onEvent Called with each decade's state when it changes.
+ * @returns The progress handle. Close it when the timeline is finished.
+ */
+export function watchTimelineSession(getToken: () => Promise<string>, sessionId: string, onEvent: (event: TimelineDecadeEvent) => void): TimelineProgress {
+    const controller = new AbortController();
+    const finishedJobs = new Map<string, TimelineDecadeEvent>();
+    const waiters = new Map<string, (event: TimelineDecadeEvent) => void>();
+    const reconnectDelay = 1000;
+    const maxReconnectDelay = 30000;
+
+    const handleEvent = (event: TimelineDecadeEvent) => {
+        onEvent(event);
+        if (event.status === 'done' || event.status === 'failed') {
+            finishedJobs.set(event.jobId, event);
+            waiters.get(event.jobId)?.(event);
+            waiters.delete(event.jobId);
+        }
+    };
+
+    (async () => {
+        let failures = 0;
+        while (!controller.signal.aborted) {
+            try {
+                const response = await fetch(`/api-proxy/timeline-sessions/${encodeURIComponent(sessionId)}/events`, {
+                    headers: { 'Accept': 'text/event-stream', 'Authorization': `Bearer ${await getToken()}` },
+                    signal: controller.signal,
+                });
+                if (response.status === 404) {
+                    console.warn(`Timeline session ${sessionId} not found. Stopped watching it.`);
+                    return;
+                }
+                if (!response.ok || !response.body) throw new Error(`Status ${response.status}`);
+                failures = 0;
+                await readEventStream(response.body, (type, data) => {
+                    if (type === 'decade') handleEvent(JSON.parse(data));
+                });
+            } catch (error) {
+                if (controller.signal.aborted) return;
+                failures++;
+                console.warn(`Timeline progress stream interrupted (${failures} in a row). Reconnecting...`, error);
+            }
+            const delay = Math.min(reconnectDelay * Math.pow(2, failures), maxReconnectDelay);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    })();
+
+    return {
+        async waitForJob(token, jobId, signal) {
+            const reported = finishedJobs.get(jobId);
+            const fromStream = reported
+                ? Promise.resolve(reported)
+                : new Promise<TimelineDecadeEvent>(resolve => waiters.set(jobId, resolve));
+            const stopPolling = new AbortController();
+            const aborted = new Promise<never>((_, reject) => {
+                signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+            });
+            try {
+                signal?.throwIfAborted();
+                const finished = await Promise.race([
+                    fromStream,
+                    waitForGenerationJob(token, jobId, { pollInterval: 15000, signal: stopPolling.signal }),
+                    aborted,
+                ]);
+                const status: GenerationJobStatus = finished.status === 'done' || finished.status === 'succeeded' ? 'succeeded' : 'failed';
+                return { status, generationId: finished.generationId, failure: finished.failure };
+            } finally {
+                stopPolling.abort();
+                waiters.delete(jobId);
+            }
+        },
+        close() {
+            controller.abort();
+        },
+    };
 }
 
 
 /**
- * Generates a styled image from a source image and a prompt.
+ * Generates a styled image from a source image and a catalog style.
+ * The generation is queued on the server and polled until it finishes, so a slow model response does not time out.
  * @param imageDataUrl A data URL string of the source image.
- * @param prompt The prompt to guide the image generation.
+ * @param style The style to apply; the server builds the prompt from it.
  * @param token The user's JWT for authentication.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * @param options.sessionId The timeline session this generation belongs to, if any.
+ * @param options.progress The session's progress stream, if it is being watched. The result is then taken from the stream.
+ * @param options.signal Stops the generation: requests in flight are aborted and the result is no longer waited for.
+ *   A job the server has already queued is not stopped by this; see `cancelTimelineSession`.
+ * @param options.idempotencyKey Identifies the generation to the server. Sending the same image and style again with
+ *   the same key (e.g. after a reload) returns the job queued the first time, without charging again.
+ * @returns A promise that resolves to a data URL of the generated image, the ID it is stored under on the server,
+ *   and the version of the style's prompt that produced it.
+ * @throws ApiError, or one of its subclasses for failures the caller can act on (e.g. OutOfCreditsError).
  */
-export async function generateStyledImage(imageDataUrl: string, prompt: string, token: string): Promise<string> {
+export async function generateStyledImage(imageDataUrl: string, style: StyleSelection, token: string, options: { sessionId?: string; progress?: TimelineProgress; signal?: AbortSignal; idempotencyKey?: string } = {}): Promise<GeneratedImageResult> {
     const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
     if (!match) {
-        throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+        throw new InvalidImageError("Invalid image data URL format. Expected 'data:image/...;base64,...'");
     }
     const [, mimeType, base64Data] = match;
 
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-    const textPart = { text: prompt };
-
     try {
-        console.log(`Attempting generation for prompt: "${prompt}"`);
-        const response = await callApiWithFetchAndRetry(imagePart, textPart, token);
-        return processApiResponse(response);
+        const { signal } = options;
+        const queuedJob = await callApiWithFetchAndRetry({ mimeType, data: base64Data }, style, token, options.sessionId, signal, options.idempotencyKey);
+        const job = options.progress
+            ? await options.progress.waitForJob(token, queuedJob.id, signal)
+            : await waitForGenerationJob(token, queuedJob.id, { signal });
+        if (job.status === 'failed') {
+            throw toJobError(job.failure);
+        }
+        return { imageUrl: await fetchGenerationImage(token, job.generationId, signal), generationId: job.generationId, styleVersion: queuedJob.styleVersion };
     } catch (error) {
+        if (options.signal?.aborted) throw error;
         console.error("An unrecoverable error occurred during image generation.", error);
+        if (error instanceof ApiError) throw error;
         const errorMessage = error instanceof Error ? error.message : String(error);
         throw new Error(`Sorry! ${errorMessage}`);
     }
-}
\ No newline at end of file
+}